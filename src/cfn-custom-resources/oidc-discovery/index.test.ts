@@ -0,0 +1,105 @@
+// Copyright 2026 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { CloudFormationCustomResourceCreateEvent, Context } from "aws-lambda";
+import { sendCfnResponse, Status } from "./cfn-response";
+import { fetch } from "./https";
+import { handler } from "./index";
+
+jest.mock("./https");
+jest.mock("./cfn-response", () => ({
+  ...jest.requireActual("./cfn-response"),
+  sendCfnResponse: jest.fn(),
+}));
+
+const mockFetch = jest.mocked(fetch);
+const mockSendCfnResponse = jest.mocked(sendCfnResponse);
+
+const issuer = "https://login.example.com";
+const discoveryDocument = {
+  issuer,
+  authorization_endpoint: `${issuer}/authorize`,
+  token_endpoint: `${issuer}/token`,
+  end_session_endpoint: `${issuer}/logout`,
+  jwks_uri: `${issuer}/jwks`,
+  id_token_signing_alg_values_supported: ["RS256", "ES256"],
+};
+const jwks = { keys: [{ kty: "RSA", kid: "key", n: "n", e: "AQAB" }] };
+
+const event: CloudFormationCustomResourceCreateEvent = {
+  RequestType: "Create",
+  ServiceToken: "service-token",
+  ResponseURL: "https://cloudformation.example.com/response",
+  StackId: "stack",
+  RequestId: "request",
+  LogicalResourceId: "OidcDiscovery",
+  ResourceType: "Custom::OidcDiscovery",
+  ResourceProperties: { ServiceToken: "service-token", Issuer: issuer },
+};
+
+async function discover(documents: { [url: string]: object }) {
+  mockFetch.mockImplementation(async (url) =>
+    Buffer.from(JSON.stringify(documents[url]))
+  );
+  await handler(event, {} as Context, () => undefined);
+  expect(mockSendCfnResponse).toHaveBeenCalledTimes(1);
+  return mockSendCfnResponse.mock.calls[0][0];
+}
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  mockSendCfnResponse.mockReset();
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+test("discovers the endpoints and JWKS", async () => {
+  const response = await discover({
+    [`${issuer}/.well-known/openid-configuration`]: discoveryDocument,
+    [`${issuer}/jwks`]: jwks,
+  });
+  expect(response.status).toBe(Status.SUCCESS);
+  expect(JSON.parse(response.data!.Configuration)).toEqual({
+    issuer,
+    authorizationEndpoint: `${issuer}/authorize`,
+    tokenEndpoint: `${issuer}/token`,
+    endSessionEndpoint: `${issuer}/logout`,
+    jwksUri: `${issuer}/jwks`,
+  });
+  expect(JSON.parse(response.data!.Jwks)).toEqual(jwks);
+});
+
+test("rejects a discovery document of another issuer", async () => {
+  const response = await discover({
+    [`${issuer}/.well-known/openid-configuration`]: {
+      ...discoveryDocument,
+      issuer: "https://evil.example.com",
+    },
+    [`${issuer}/jwks`]: jwks,
+  });
+  expect(response.status).toBe(Status.FAILED);
+  expect(response.reason).toContain("Issuer mismatch");
+});
+
+test("rejects issuers that don't sign ID tokens with RSA", async () => {
+  const response = await discover({
+    [`${issuer}/.well-known/openid-configuration`]: {
+      ...discoveryDocument,
+      id_token_signing_alg_values_supported: ["ES256"],
+    },
+    [`${issuer}/jwks`]: jwks,
+  });
+  expect(response.status).toBe(Status.FAILED);
+  expect(response.reason).toContain(
+    "Issuer signs ID tokens with ES256, but only RS256, RS384, RS512 are supported"
+  );
+});
+
+test("rejects a JWKS without RSA keys", async () => {
+  const response = await discover({
+    [`${issuer}/.well-known/openid-configuration`]: discoveryDocument,
+    [`${issuer}/jwks`]: { keys: [{ kty: "EC", kid: "key" }] },
+  });
+  expect(response.status).toBe(Status.FAILED);
+  expect(response.reason).toContain("JWKS does not include any RSA keys");
+});
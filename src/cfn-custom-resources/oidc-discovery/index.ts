@@ -0,0 +1,127 @@
+// Copyright 2026 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+/*
+    This is a CloudFormation custom resource. It's purpose is to:
+
+    - Read the OpenID Connect discovery document of a (non-Cognito) OIDC issuer, e.g. Okta, Auth0, Keycloak, Entra ID
+    - Fetch the issuer's JWKS
+
+    The endpoints and JWKS are baked into the configuration of the Lambda@Edge functions,
+    so these don't need to be fetched at runtime
+*/
+
+import {
+  CloudFormationCustomResourceHandler,
+  CloudFormationCustomResourceDeleteEvent,
+  CloudFormationCustomResourceUpdateEvent,
+} from "aws-lambda";
+import { sendCfnResponse, Status } from "./cfn-response";
+import { fetch } from "./https";
+
+const RSA_SIGNING_ALGORITHMS = ["RS256", "RS384", "RS512"];
+
+async function discoverOidcConfiguration(
+  action: "Create" | "Update" | "Delete",
+  issuer: string,
+  physicalResourceId?: string
+) {
+  if (action === "Delete") {
+    // Deletes aren't executed
+    return { physicalResourceId: physicalResourceId!, Data: {} };
+  }
+  const url = `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+  console.log(`Fetching OpenID Connect discovery document from ${url}`);
+  const discoveryDocument = JSON.parse((await fetch(url)).toString());
+
+  // The issuer in the discovery document must be the issuer we asked for (OpenID Connect Discovery 1.0, section 4.3)
+  if (discoveryDocument.issuer !== issuer) {
+    throw new Error(
+      `Issuer mismatch: discovery document has issuer ${discoveryDocument.issuer} but expected ${issuer}`
+    );
+  }
+  ["authorization_endpoint", "token_endpoint", "jwks_uri"].forEach((key) => {
+    if (!discoveryDocument[key]) {
+      throw new Error(`Discovery document does not include ${key}`);
+    }
+  });
+
+  // The Lambda@Edge functions verify the JWTs with the JwtRsaVerifier, that only supports RSA signatures
+  const signingAlgorithms: string[] | undefined =
+    discoveryDocument.id_token_signing_alg_values_supported;
+  if (
+    signingAlgorithms &&
+    !signingAlgorithms.some((alg) => RSA_SIGNING_ALGORITHMS.includes(alg))
+  ) {
+    throw new Error(
+      `Issuer signs ID tokens with ${signingAlgorithms.join(
+        ", "
+      )}, but only ${RSA_SIGNING_ALGORITHMS.join(", ")} are supported`
+    );
+  }
+
+  console.log(`Fetching JWKS from ${discoveryDocument.jwks_uri}`);
+  const jwks = (await fetch(discoveryDocument.jwks_uri)).toString();
+  // Ensure the JWKS is valid JSON (to avoid ugly errors at runtime), with RSA keys
+  const { keys = [] } = JSON.parse(jwks);
+  if (!keys.some((key: { kty?: string }) => key.kty === "RSA")) {
+    throw new Error("JWKS does not include any RSA keys");
+  }
+  console.log(`Fetched JWKS with ${keys.length} keys`);
+
+  const oidcConfiguration = {
+    issuer: discoveryDocument.issuer,
+    authorizationEndpoint: discoveryDocument.authorization_endpoint,
+    tokenEndpoint: discoveryDocument.token_endpoint,
+    endSessionEndpoint: discoveryDocument.end_session_endpoint,
+    revocationEndpoint: discoveryDocument.revocation_endpoint,
+    jwksUri: discoveryDocument.jwks_uri,
+  };
+
+  console.log(
+    `Discovered OpenID Connect configuration: ${JSON.stringify(
+      oidcConfiguration
+    )}`
+  );
+
+  return {
+    physicalResourceId: issuer,
+    Data: {
+      Configuration: JSON.stringify(oidcConfiguration),
+      Jwks: jwks,
+    },
+  };
+}
+
+export const handler: CloudFormationCustomResourceHandler = async (event) => {
+  const { ResourceProperties, RequestType } = event;
+
+  const { PhysicalResourceId } = event as
+    | CloudFormationCustomResourceDeleteEvent
+    | CloudFormationCustomResourceUpdateEvent;
+
+  const { Issuer } = ResourceProperties;
+
+  let status = Status.SUCCESS;
+  let physicalResourceId: string | undefined;
+  let data: { [key: string]: any } | undefined;
+  let reason: string | undefined;
+  try {
+    ({ physicalResourceId, Data: data } = await discoverOidcConfiguration(
+      RequestType,
+      Issuer,
+      PhysicalResourceId
+    ));
+  } catch (err) {
+    console.error(err);
+    status = Status.FAILED;
+    reason = `${err}`;
+  }
+  await sendCfnResponse({
+    event,
+    status,
+    data,
+    physicalResourceId,
+    reason,
+  });
+};
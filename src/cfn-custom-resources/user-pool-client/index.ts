@@ -5,6 +5,7 @@
     This is a CloudFormation custom resource. It's purpose is to:
 
     - Update a User Pool Client's redirect URL's
+    - Read a User Pool Client's refresh token validity (custom resource type Custom::UserPoolClientRefreshTokenValidity)
 
     We need to do this in a custom resource, to support the scenario of updating a pre-existing User Pool Client
 */
@@ -156,6 +157,7 @@ interface Props {
   CloudFrontDistributionDomainName: string;
   RedirectPathSignIn: string;
   RedirectPathSignOut: string;
+  SignOutRedirectUris?: string[];
   AlternateDomainNames: string[];
 }
 
@@ -167,9 +169,12 @@ function getRedirectUris(props: Props) {
   const redirectUrisSignIn = redirectDomains.map(
     (domain) => `https://${domain}${props.RedirectPathSignIn}`
   );
-  const redirectUrisSignOut = redirectDomains.map(
-    (domain) => `https://${domain}${props.RedirectPathSignOut}`
-  );
+  const redirectUrisSignOut = [
+    ...redirectDomains.map(
+      (domain) => `https://${domain}${props.RedirectPathSignOut}`
+    ),
+    ...(props.SignOutRedirectUris ?? []).filter((uri) => !!uri),
+  ];
   return { redirectUrisSignIn, redirectUrisSignOut };
 }
 
@@ -216,6 +221,25 @@ async function updateCognitoUserPoolClient(
   };
 }
 
+const TOKEN_VALIDITY_UNIT_IN_SECONDS = {
+  seconds: 1,
+  minutes: 60,
+  hours: 60 * 60,
+  days: 60 * 60 * 24,
+};
+
+async function retrieveRefreshTokenValidity(props: Props) {
+  const userPoolClient = await getUserPoolClient(props);
+  // Cognito's defaults apply if these haven't been set on the User Pool Client
+  const refreshTokenValidity = userPoolClient.RefreshTokenValidity ?? 30;
+  const unit = (userPoolClient.TokenValidityUnits?.RefreshToken ??
+    "days") as keyof typeof TOKEN_VALIDITY_UNIT_IN_SECONDS;
+  return {
+    RefreshTokenValidity:
+      refreshTokenValidity * TOKEN_VALIDITY_UNIT_IN_SECONDS[unit],
+  };
+}
+
 export const handler: CloudFormationCustomResourceHandler = async (event) => {
   console.log(JSON.stringify(event, undefined, 4));
   const { ResourceProperties, RequestType } = event;
@@ -233,12 +257,21 @@ export const handler: CloudFormationCustomResourceHandler = async (event) => {
   let data: { [key: string]: any } | undefined;
   let reason: string | undefined;
   try {
-    data = await updateCognitoUserPoolClient(
-      RequestType,
-      ResourceProperties as unknown as Props,
-      OldResourceProperties as unknown as Props,
-      physicalResourceId
-    );
+    if (event.ResourceType === "Custom::UserPoolClientRefreshTokenValidity") {
+      // Read only: there's nothing to undo upon Delete
+      if (RequestType !== "Delete") {
+        const props = ResourceProperties as unknown as Props;
+        physicalResourceId = `${props.UserPoolClientId}-refresh-token-validity`;
+        data = await retrieveRefreshTokenValidity(props);
+      }
+    } else {
+      data = await updateCognitoUserPoolClient(
+        RequestType,
+        ResourceProperties as unknown as Props,
+        OldResourceProperties as unknown as Props,
+        physicalResourceId
+      );
+    }
   } catch (err) {
     console.error(err);
     status = Status.FAILED;
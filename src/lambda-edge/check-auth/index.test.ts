@@ -0,0 +1,773 @@
+// Copyright 2026 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { createHmac } from "crypto";
+import {
+  accessToken,
+  asRequest,
+  asResponse,
+  baseConfig,
+  clientId,
+  idToken,
+  loadHandler,
+  oidcConfig,
+  oidcIssuer,
+  requestEvent,
+  signJwt,
+  tokenCookies,
+} from "../shared/test-helpers";
+
+describe("bearer tokens", () => {
+  const handler = loadHandler("../check-auth", {
+    ...baseConfig,
+    acceptBearerTokens: true,
+    accessRules: [
+      { path: "/admin/**", access: "groups", groups: ["admins"] },
+      { path: "/api/**", access: "authenticated", scopes: ["api/read"] },
+    ],
+  });
+  const bearer = (token: string) => ({
+    authorization: [{ key: "Authorization", value: `Bearer ${token}` }],
+  });
+
+  test("accepts ID tokens", async () => {
+    const event = requestEvent({ headers: bearer(idToken()) });
+    const result = await handler(event);
+    expect(result).toBe(event.Records[0].cf.request);
+  });
+
+  test("accepts access tokens", async () => {
+    const event = requestEvent({ headers: bearer(accessToken()) });
+    const result = await handler(event);
+    expect(result).toBe(event.Records[0].cf.request);
+  });
+
+  test("evaluates the scopes in access tokens", async () => {
+    const allowed = requestEvent({
+      uri: "/api/items",
+      headers: bearer(accessToken({ scope: "openid api/read" })),
+    });
+    expect(await handler(allowed)).toBe(allowed.Records[0].cf.request);
+
+    const denied = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/api/items",
+          headers: bearer(accessToken({ scope: "openid" })),
+        })
+      )
+    );
+    expect(denied.status).toBe("403");
+    expect(denied.headers["www-authenticate"][0].value).toContain(
+      'error="insufficient_scope"'
+    );
+  });
+
+  test("evaluates the groups in access tokens", async () => {
+    const allowed = requestEvent({
+      uri: "/admin/",
+      headers: bearer(accessToken({ "cognito:groups": ["admins"] })),
+    });
+    expect(await handler(allowed)).toBe(allowed.Records[0].cf.request);
+
+    const denied = asResponse(
+      await handler(
+        requestEvent({ uri: "/admin/", headers: bearer(accessToken()) })
+      )
+    );
+    expect(denied.status).toBe("403");
+  });
+
+  test("rejects invalid tokens", async () => {
+    const result = asResponse(
+      await handler(requestEvent({ headers: bearer(`${accessToken()}x`) }))
+    );
+    expect(result.status).toBe("401");
+    expect(result.headers["www-authenticate"][0].value).toContain(
+      'error="invalid_token"'
+    );
+  });
+
+  test("doesn't reflect control characters in WWW-Authenticate", async () => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          headers: bearer(idToken({ aud: "x\r\nSet-Cookie: a=b" })),
+        })
+      )
+    );
+    const header = result.headers["www-authenticate"][0].value;
+    expect(header).toContain("Set-Cookie: a=b");
+    expect(header).toMatch(/^[\x20-\x7e]*$/);
+  });
+});
+
+describe("tokens of another OpenID Connect provider", () => {
+  const handler = loadHandler("../check-auth", {
+    ...oidcConfig,
+    accessTokenAudience: "https://api.example.com",
+    accessRules: [
+      { path: "/admin/**", access: "groups", groups: ["admins"] },
+      { path: "/api/**", access: "authenticated", scopes: ["api/read"] },
+    ],
+  });
+  const oidcIdToken = (claims: { [key: string]: unknown } = {}) =>
+    signJwt({ iss: oidcIssuer, sub: "user", aud: clientId, ...claims });
+  const oidcAccessToken = (claims: { [key: string]: unknown } = {}) =>
+    signJwt(
+      {
+        iss: oidcIssuer,
+        sub: "user",
+        aud: "https://api.example.com",
+        scope: "openid api/read",
+        ...claims,
+      },
+      { typ: "at+jwt" }
+    );
+  const request = (uri: string, tokens: { id: string; access?: string }) =>
+    requestEvent({ uri, cookies: tokenCookies(tokens) });
+
+  test("accept ID tokens of the provider for our client", async () => {
+    const event = request("/a.html", { id: oidcIdToken() });
+    expect(await handler(event)).toBe(event.Records[0].cf.request);
+  });
+
+  test.each([
+    ["another client", { aud: "otherclient" }],
+    ["another issuer", { iss: "https://evil.example.com" }],
+  ])("reject ID tokens for %s", async (_, claims) => {
+    const result = asResponse(
+      await handler(request("/a.html", { id: oidcIdToken(claims) }))
+    );
+    expect(result.status).toBe("401");
+  });
+
+  test("check the groups in the configured claim", async () => {
+    const allowed = request("/admin/", {
+      id: oidcIdToken({ groups: ["admins"] }),
+    });
+    expect(await handler(allowed)).toBe(allowed.Records[0].cf.request);
+
+    const denied = asResponse(
+      await handler(request("/admin/", { id: oidcIdToken({ groups: [] }) }))
+    );
+    expect(denied.body).toContain("You are not authorized for this site");
+  });
+
+  test("check the scopes in access tokens for the configured audience", async () => {
+    const allowed = request("/api/items", {
+      id: oidcIdToken(),
+      access: oidcAccessToken(),
+    });
+    expect(await handler(allowed)).toBe(allowed.Records[0].cf.request);
+
+    const withoutScope = asResponse(
+      await handler(
+        request("/api/items", {
+          id: oidcIdToken(),
+          access: oidcAccessToken({ scope: "openid" }),
+        })
+      )
+    );
+    expect(withoutScope.body).toContain("You are not authorized for this site");
+
+    const otherAudience = asResponse(
+      await handler(
+        request("/api/items", {
+          id: oidcIdToken(),
+          access: oidcAccessToken({ aud: "https://other.example.com" }),
+        })
+      )
+    );
+    expect(otherAudience.status).toBe("401");
+  });
+});
+
+describe("bearer tokens from another OpenID Connect provider", () => {
+  const config = { ...oidcConfig, acceptBearerTokens: true };
+  const bearer = (token: string) =>
+    requestEvent({
+      headers: {
+        authorization: [{ key: "Authorization", value: `Bearer ${token}` }],
+      },
+    });
+  const oidcAccessToken = (audience: string) =>
+    signJwt(
+      { iss: oidcIssuer, sub: "user", aud: audience, scope: "openid" },
+      { typ: "at+jwt" }
+    );
+
+  test("accept access tokens for the configured audience only", async () => {
+    const handler = loadHandler("../check-auth", {
+      ...config,
+      accessTokenAudience: "https://api.example.com",
+    });
+    const event = bearer(oidcAccessToken("https://api.example.com"));
+    expect(await handler(event)).toBe(event.Records[0].cf.request);
+
+    const result = asResponse(
+      await handler(bearer(oidcAccessToken("https://other.example.com")))
+    );
+    expect(result.status).toBe("401");
+  });
+
+  test("accept no access tokens at all, if no audience is configured", async () => {
+    const handler = loadHandler("../check-auth", config);
+    const result = asResponse(await handler(bearer(oidcAccessToken(clientId))));
+    expect(result.status).toBe("401");
+    expect(result.headers["www-authenticate"][0].value).toContain(
+      "no access token audience is configured"
+    );
+  });
+
+  test("refuse to start, if access rules require scopes but no audience is configured", () => {
+    expect(() =>
+      loadHandler("../check-auth", {
+        ...config,
+        accessRules: [
+          { path: "/api/**", access: "authenticated", scopes: ["api/read"] },
+        ],
+      })
+    ).toThrow("no access token audience is configured");
+  });
+});
+
+describe("claim conditions", () => {
+  const handler = loadHandler("../check-auth", {
+    ...baseConfig,
+    claimConditions: [{ claim: "email", endsWith: "@example.com" }],
+    accessRules: [
+      {
+        path: "/gold/**",
+        access: "authenticated",
+        claims: [{ claim: "custom:tier", equals: "gold" }],
+      },
+    ],
+  });
+  const request = (uri: string, claims: { [key: string]: unknown }) =>
+    requestEvent({
+      uri,
+      cookies: tokenCookies({ id: idToken(claims), access: accessToken() }),
+    });
+
+  test("allow access if all conditions are met", async () => {
+    const event = request("/gold/a.html", {
+      email: "user@example.com",
+      "custom:tier": "gold",
+    });
+    expect(await handler(event)).toBe(event.Records[0].cf.request);
+  });
+
+  test.each([
+    ["/a.html", { email: "user@example.org" }, 'claim "email"'],
+    [
+      "/gold/a.html",
+      { email: "user@example.com", "custom:tier": "silver" },
+      'claim "custom:tier"',
+    ],
+  ])("show which condition isn't met, upon %s", async (uri, claims, reason) => {
+    const result = asResponse(await handler(request(uri, claims)));
+    expect(result.status).toBe("200");
+    expect(result.body).toContain("You are not authorized for this site");
+    expect(result.body).toContain(reason.replace(/"/g, "&quot;"));
+  });
+});
+
+describe("OAuth scopes", () => {
+  const handler = loadHandler("../check-auth", {
+    ...baseConfig,
+    oauthScopes: ["openid", "api/read"],
+    accessRules: [
+      { path: "/api/**", access: "authenticated", scopes: ["api/read"] },
+    ],
+  });
+
+  test("allow access if the access token in the cookies has the scope", async () => {
+    const event = requestEvent({
+      uri: "/api/items",
+      cookies: tokenCookies({
+        id: idToken(),
+        access: accessToken({ scope: "openid api/read" }),
+      }),
+    });
+    expect(await handler(event)).toBe(event.Records[0].cf.request);
+  });
+
+  test("deny access if the access token lacks the scope", async () => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/api/items",
+          cookies: tokenCookies({ id: idToken(), access: accessToken() }),
+        })
+      )
+    );
+    expect(result.status).toBe("200");
+    expect(result.body).toContain("You are not authorized for this site");
+  });
+
+  test("don't accept an ID token instead of the access token", async () => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/api/items",
+          cookies: tokenCookies({
+            id: idToken(),
+            access: idToken({ scope: "openid api/read" }),
+          }),
+        })
+      )
+    );
+    expect(result.status).toBe("401");
+    expect(JSON.parse(result.body).error).toBe("sign_in_required");
+  });
+
+  test("require the access token only for paths with scopes", async () => {
+    const event = requestEvent({
+      uri: "/other",
+      cookies: tokenCookies({ id: idToken() }),
+    });
+    expect(await handler(event)).toBe(event.Records[0].cf.request);
+  });
+});
+
+describe("identity headers", () => {
+  const handler = loadHandler("../check-auth", {
+    ...baseConfig,
+    accessRules: [{ path: "/public/**", access: "public" }],
+    identityHeaders: {
+      sub: "x-auth-sub",
+      "cognito:groups": "X-Auth-Groups",
+      name: "x-auth-name",
+    },
+    identityHeadersSigningSecret: "identity-signing-secret",
+    profiles: [
+      {
+        name: "partner",
+        hosts: ["partner.example.com"],
+        identityHeaders: { email: "X-Partner-Email" },
+      },
+    ],
+  });
+
+  test("strips the identity headers of all profiles from client requests", async () => {
+    const header = (key: string) => [{ key, value: "spoofed" }];
+    const event = requestEvent({
+      uri: "/public/index.html",
+      headers: {
+        "x-auth-sub": header("X-Auth-Sub"),
+        "x-partner-email": header("X-Partner-Email"),
+        "x-auth-signature": header("X-Auth-Signature"),
+        "x-other": header("X-Other"),
+      },
+    });
+    const result = asRequest(await handler(event));
+    expect(Object.keys(result.headers).sort()).toEqual(["host", "x-other"]);
+  });
+
+  test("adds the claims as headers, signed so that the origin can verify these", async () => {
+    const event = requestEvent({
+      cookies: tokenCookies({
+        id: idToken({ "cognito:groups": ["admins", "editors"], name: "Zoë" }),
+        access: accessToken(),
+      }),
+    });
+    const { headers } = asRequest(await handler(event));
+    expect(headers["x-auth-sub"][0].value).toBe("user");
+    expect(headers["x-auth-groups"][0].value).toBe("admins,editors");
+    expect(headers["x-auth-name"][0].value).toBe("Zo%C3%AB");
+
+    // This is how the origin verifies the signature
+    const signature = headers["x-auth-signature"][0].value;
+    const { t, h, v1 } = Object.fromEntries(
+      signature.split(",").map((part) => part.split("="))
+    );
+    expect(Math.abs(Number(t) - Date.now() / 1000)).toBeLessThan(5);
+    expect(h.split(";").sort()).toEqual([
+      "x-auth-groups",
+      "x-auth-name",
+      "x-auth-sub",
+    ]);
+    const expected = createHmac("sha256", "identity-signing-secret")
+      .update(
+        [
+          t,
+          ...h
+            .split(";")
+            .map((name: string) => `${name}:${headers[name][0].value}`),
+        ].join("\n")
+      )
+      .digest("hex");
+    expect(v1).toBe(expected);
+  });
+});
+
+describe("sign-in", () => {
+  const handler = loadHandler("../check-auth", baseConfig);
+  const header = (key: string, value: string) => [{ key, value }];
+
+  test("starts a sign-in attempt upon navigation to an HTML document", async () => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/page.html",
+          headers: {
+            "sec-fetch-mode": header("Sec-Fetch-Mode", "navigate"),
+            "sec-fetch-dest": header("Sec-Fetch-Dest", "document"),
+          },
+        })
+      )
+    );
+    expect(result.status).toBe("307");
+    expect(result.headers.location[0].value).toMatch(
+      /^https:\/\/auth\.example\.com\/oauth2\/authorize\?/
+    );
+    expect(result.headers["set-cookie"].length).toBeGreaterThan(0);
+  });
+
+  test.each([
+    ["images", { "sec-fetch-dest": header("Sec-Fetch-Dest", "image") }],
+    ["fetch()", { "sec-fetch-mode": header("Sec-Fetch-Mode", "cors") }],
+    ["clients without Sec-Fetch headers", { accept: header("Accept", "*/*") }],
+  ])(
+    "doesn't start a sign-in attempt for %s",
+    async (
+      _,
+      headers: { [name: string]: { key: string; value: string }[] }
+    ) => {
+      const result = asResponse(
+        await handler(
+          requestEvent({
+            uri: "/logo.png",
+            headers: {
+              ...headers,
+              referer: header("Referer", "https://www.example.com/page.html"),
+            },
+          })
+        )
+      );
+      expect(result.status).toBe("401");
+      expect(result.headers["set-cookie"]).toBeUndefined();
+      expect(JSON.parse(result.body)).toEqual({
+        error: "sign_in_required",
+        signInUrl: "https://www.example.com/page.html",
+      });
+    }
+  );
+
+  test("tells to navigate to the requested URL, if the request didn't come from this site", async () => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/logo.png",
+          headers: {
+            referer: header("Referer", "https://www.example.com.evil.com/"),
+          },
+        })
+      )
+    );
+    expect(JSON.parse(result.body).signInUrl).toBe(
+      "https://www.example.com/logo.png"
+    );
+  });
+});
+
+describe("refresh", () => {
+  const handler = loadHandler("../check-auth", baseConfig);
+  const now = Math.floor(Date.now() / 1000);
+  const cookies = tokenCookies({
+    id: idToken({ iat: now - 3700, exp: now - 100 }),
+    access: accessToken(),
+  });
+
+  test("redirects navigations to the refresh path", async () => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/page.html",
+          headers: {
+            "sec-fetch-mode": [{ key: "Sec-Fetch-Mode", value: "navigate" }],
+          },
+          cookies,
+        })
+      )
+    );
+    expect(result.status).toBe("307");
+    expect(result.headers.location[0].value).toMatch(
+      /^https:\/\/www\.example\.com\/refreshauth\?requestedUri=https%3A%2F%2Fwww\.example\.com%2Fpage\.html&nonce=/
+    );
+  });
+
+  test.each([
+    ["fetch()", "GET", { "sec-fetch-mode": "cors" }],
+    ["XMLHttpRequest", "GET", { "x-requested-with": "XMLHttpRequest" }],
+    ["JSON", "GET", { accept: "application/json" }],
+    ["POST", "POST", {}],
+  ])(
+    "tells other requests where to refresh: %s",
+    async (_, method, headers: { [name: string]: string }) => {
+      const result = asResponse(
+        await handler(
+          requestEvent({
+            method,
+            uri: "/api/items",
+            headers: Object.fromEntries(
+              Object.entries(headers).map(([name, value]) => [
+                name,
+                [{ key: name, value }],
+              ])
+            ),
+            cookies,
+          })
+        )
+      );
+      expect(result.status).toBe("401");
+      expect(result.headers["content-type"][0].value).toBe("application/json");
+      const body = JSON.parse(result.body);
+      expect(body.error).toBe("refresh_required");
+      expect(body.refreshUrl).toMatch(
+        /^https:\/\/www\.example\.com\/refreshauth\?requestedUri=/
+      );
+      // The nonce cookies are set, so the refresh path accepts the refresh when the app navigates there
+      expect(
+        result.headers["set-cookie"].map(({ value }) => value)
+      ).toContainEqual(expect.stringMatching(/^spa-auth-edge-nonce=/));
+    }
+  );
+});
+
+describe("inline refresh", () => {
+  const fetch = jest.fn();
+  const handler = loadHandler(
+    "../check-auth",
+    { ...baseConfig, inlineRefresh: true },
+    fetch
+  );
+  const now = Math.floor(Date.now() / 1000);
+  const newIdToken = idToken();
+  const expiredTokenCookies = tokenCookies({
+    id: idToken({ exp: now - 10 }),
+    access: accessToken({ exp: now - 10 }),
+    refresh: "refresh-token",
+  });
+  const header = (key: string, value: string) => ({
+    [key.toLowerCase()]: [{ key, value }],
+  });
+
+  beforeEach(() => {
+    fetch.mockReset();
+    fetch.mockResolvedValue({
+      status: 200,
+      headers: { "content-type": "application/json" },
+      data: Buffer.from(
+        JSON.stringify({ id_token: newIdToken, access_token: accessToken() })
+      ),
+    });
+  });
+
+  test.each([
+    ["video", header("Sec-Fetch-Dest", "video")],
+    ["audio", header("Sec-Fetch-Dest", "audio")],
+    ["ranges", header("Range", "bytes=0-")],
+  ])(
+    "refreshes the tokens for %s, and redirects back to the same URL",
+    async (_, headers) => {
+      const result = asResponse(
+        await handler(
+          requestEvent({
+            uri: "/movie.mp4",
+            querystring: "t=60",
+            headers,
+            cookies: expiredTokenCookies,
+          })
+        )
+      );
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(result.status).toBe("307");
+      expect(result.headers.location[0].value).toBe(
+        "https://www.example.com/movie.mp4?t=60"
+      );
+      expect(
+        result.headers["set-cookie"].map(({ value }) => value)
+      ).toContainEqual(expect.stringContaining(`.user.idToken=${newIdToken};`));
+    }
+  );
+
+  test.each([
+    ["images", header("Sec-Fetch-Dest", "image")],
+    ["scripts", header("Sec-Fetch-Dest", "script")],
+    ["documents", header("Sec-Fetch-Dest", "document")],
+  ])(
+    "redirects %s to the refresh path, that refreshes once for concurrent requests",
+    async (_, headers) => {
+      const result = asResponse(
+        await handler(
+          requestEvent({
+            uri: "/logo.png",
+            headers,
+            cookies: expiredTokenCookies,
+          })
+        )
+      );
+      expect(fetch).not.toHaveBeenCalled();
+      expect(result.status).toBe("307");
+      expect(result.headers.location[0].value).toMatch(
+        /^https:\/\/www\.example\.com\/refreshauth\?/
+      );
+    }
+  );
+
+  test("redirects to the refresh path, if the inline refresh fails", async () => {
+    fetch.mockResolvedValue({
+      status: 400,
+      headers: { "content-type": "application/json" },
+      data: Buffer.from(JSON.stringify({ error: "invalid_grant" })),
+    });
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/movie.mp4",
+          headers: header("Sec-Fetch-Dest", "video"),
+          cookies: expiredTokenCookies,
+        })
+      )
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe("307");
+    expect(result.headers.location[0].value).toMatch(
+      /^https:\/\/www\.example\.com\/refreshauth\?/
+    );
+  });
+});
+
+describe("custom cookie names", () => {
+  const customConfig = {
+    ...baseConfig,
+    cookieCompatibility: "custom",
+    customCookieNames: { prefix: "__Host-", idToken: "id" },
+  };
+  const handler = loadHandler("../check-auth", customConfig);
+
+  test("read the tokens from the cookies with the custom names", async () => {
+    const event = requestEvent({
+      uri: "/page.html",
+      cookies: [
+        `__Host-id=${idToken()}`,
+        `__Host-spa-auth-edge-access-token=${accessToken()}`,
+      ],
+    });
+    expect(asRequest(await handler(event))).toBe(event.Records[0].cf.request);
+  });
+
+  test("ignore the tokens in Amplify's cookies", async () => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/page.html",
+          headers: {
+            "sec-fetch-mode": [{ key: "Sec-Fetch-Mode", value: "navigate" }],
+            "sec-fetch-dest": [{ key: "Sec-Fetch-Dest", value: "document" }],
+          },
+          cookies: tokenCookies({ id: idToken(), access: accessToken() }),
+        })
+      )
+    );
+    expect(result.status).toBe("307");
+    expect(
+      result.headers["set-cookie"].map(({ value }) => value.split("=")[0])
+    ).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/^__Host-spa-auth-edge-nonce-/),
+      ])
+    );
+    result.headers["set-cookie"]
+      .filter(({ value }) => value.startsWith("__Host-"))
+      .forEach(({ value }) => {
+        expect(value).toMatch(/; Path=\/;/);
+        expect(value).not.toMatch(/Domain=/i);
+      });
+  });
+
+  test.each([
+    [
+      "__Secure-",
+      { idToken: "Path=/; HttpOnly" },
+      'Cookie settings for idToken must include "Secure" when using cookie prefix __Secure-',
+    ],
+    [
+      "__Host-",
+      { nonce: "Path=/; Secure; HttpOnly; Domain=example.com" },
+      'Cookie settings for nonce must include "Path=/" and no "Domain" when using cookie prefix __Host-',
+    ],
+    [
+      "__Host-",
+      { accessToken: "Path=/private; Secure; HttpOnly" },
+      'Cookie settings for accessToken must include "Path=/" and no "Domain" when using cookie prefix __Host-',
+    ],
+  ])(
+    "refuse to start with prefix %s and cookie settings %j",
+    (prefix, cookieSettings, error) => {
+      expect(() =>
+        loadHandler("../check-auth", {
+          ...customConfig,
+          customCookieNames: { prefix },
+          cookieSettings,
+        })
+      ).toThrow(error);
+    }
+  );
+
+  test("default to Path=/ for the refresh token cookie with prefix __Host-", () => {
+    expect(() => loadHandler("../check-auth", customConfig)).not.toThrow();
+  });
+});
+
+describe("proactive refresh", () => {
+  const handler = loadHandler("../check-auth", {
+    ...baseConfig,
+    proactiveRefreshThreshold: 300,
+  });
+  const now = Math.floor(Date.now() / 1000);
+  const navigation = {
+    "sec-fetch-mode": [{ key: "Sec-Fetch-Mode", value: "navigate" }],
+    "sec-fetch-dest": [{ key: "Sec-Fetch-Dest", value: "document" }],
+  };
+
+  test("redirects navigations to HTML documents to the refresh path", async () => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/page.html",
+          headers: navigation,
+          cookies: tokenCookies({
+            id: idToken({ iat: now - 3500, exp: now + 100 }),
+            access: accessToken(),
+          }),
+        })
+      )
+    );
+    expect(result.status).toBe("307");
+    expect(result.headers.location[0].value).toMatch(
+      /^https:\/\/www\.example\.com\/refreshauth\?/
+    );
+  });
+
+  test.each([
+    [
+      "other requests",
+      {
+        "sec-fetch-mode": [{ key: "Sec-Fetch-Mode", value: "no-cors" }],
+        "sec-fetch-dest": [{ key: "Sec-Fetch-Dest", value: "image" }],
+      },
+      idToken({ iat: now - 3500, exp: now + 100 }),
+    ],
+    ["navigations before the threshold", navigation, idToken()],
+  ])("passes %s through", async (_, headers, id) => {
+    const event = requestEvent({
+      uri: "/page.html",
+      headers,
+      cookies: tokenCookies({ id, access: accessToken() }),
+    });
+    expect(asRequest(await handler(event))).toBe(event.Records[0].cf.request);
+  });
+});
@@ -2,169 +2,708 @@
 // SPDX-License-Identifier: MIT-0
 
 import { stringify as stringifyQueryString } from "querystring";
-import { createHash } from "crypto";
-import { CloudFrontRequestHandler } from "aws-lambda";
+import { createHash, createHmac } from "crypto";
+import {
+  CloudFrontHeaders,
+  CloudFrontRequest,
+  CloudFrontRequestHandler,
+} from "aws-lambda";
 import * as common from "../shared/shared";
 
-const CONFIG = common.getConfigWithJwtVerifier();
-CONFIG.logger.debug("Configuration loaded:", CONFIG);
+const CONFIGS = common.getConfigProfilesWithJwtVerifier();
+CONFIGS[0].logger.debug("Configuration loaded:", CONFIGS);
 
 export const handler: CloudFrontRequestHandler = async (event) => {
-  CONFIG.logger.debug("Event:", event);
   const request = event.Records[0].cf.request;
+  const config = common.selectConfigProfile(CONFIGS, request);
+  config.logger.debug("Event:", event);
   const domainName = request.headers["host"][0].value;
   const requestedUri = `${request.uri}${
     request.querystring ? "?" + request.querystring : ""
   }`;
   let refreshToken: string | undefined = "";
   let cookies: ReturnType<typeof common["extractAndParseCookies"]> = {};
+
+  // Identity headers must only come from us, never from the client
+  stripIdentityHeaders(request.headers);
+
+  // Public paths don't require sign-in
+  const accessRule = common.findAccessRule(config.accessRules, request.uri);
+  if (accessRule?.access === "public") {
+    config.logger.debug("Access allowed to public path:", accessRule.path);
+    return request;
+  }
+
+  // Non-browser clients may present a JWT (ID token or access token) as Bearer token in the Authorization header
+  // These clients can't follow the redirects to the Cognito Hosted UI, so they get a 401 or 403 instead
+  const bearerToken = config.acceptBearerTokens
+    ? getBearerToken(request.headers)
+    : undefined;
+  if (bearerToken) {
+    try {
+      const payload = common.isAccessToken(bearerToken)
+        ? await verifyAccessToken(config, {
+            accessToken: bearerToken,
+            accessRule,
+          })
+        : await verifyTokens(config, { idToken: bearerToken, accessRule });
+      addIdentityHeaders(config, request.headers, payload);
+      config.logger.debug("Access allowed with bearer token:", request);
+      return request;
+    } catch (err) {
+      config.logger.info("Access denied for bearer token:", err);
+      return bearerTokenErrorResponse(config, { err, domainName });
+    }
+  }
+
   try {
-    cookies = common.extractAndParseCookies(
-      request.headers,
-      CONFIG.clientId,
-      CONFIG.cookieCompatibility
+    cookies = await common.resolveSession(
+      config,
+      common.extractAndParseCookies(request.headers, config)
     );
-    CONFIG.logger.debug("Extracted cookies:", cookies);
+    config.logger.debug("Extracted cookies:", cookies);
     refreshToken = cookies.refreshToken;
 
+    // If cookie expiry is derived from the tokens, the ID token cookie is gone once the ID token expires,
+    // but the user may still have a refresh token (in static site mode the refresh token cookie is only sent to the refresh path,
+    // but then we can tell by the cookie with the user name, which lasts as long as the refresh token)
+    if (
+      !cookies.idToken &&
+      config.cookieExpiryFromTokens &&
+      (cookies.refreshToken || cookies.tokenUserName) &&
+      !cookies.refreshFailed
+    ) {
+      config.logger.debug("ID token cookie expired, refreshing tokens");
+      return refreshTokens(config, {
+        request,
+        domainName,
+        requestedUri,
+        cookies,
+      });
+    }
+
     // If there's no ID token in your cookies, then you are not signed in yet
     if (!cookies.idToken) {
       throw new Error("No ID token present in cookies");
     }
 
-    // Verify the ID-token (JWT), this throws an error if the JWT is not valid
-    const payload = await CONFIG.jwtVerifier.verify(cookies.idToken);
-    CONFIG.logger.debug("JWT payload:", payload);
+    // Verify the JWTs, this throws an error if the JWTs are not valid or don't grant access
+    const payload = await verifyTokens(config, {
+      idToken: cookies.idToken,
+      accessToken: cookies.accessToken,
+      accessRule,
+    });
+
+    // Refresh proactively if the ID token expires soon, so that users rarely hit an expired token.
+    // We can't add response headers here, so we only do this upon navigation to HTML documents, that can follow our redirects
+    // (and of which there's only one per page). Other requests are allowed access, as the ID token is still valid
+    if (
+      config.proactiveRefreshThreshold &&
+      !cookies.refreshFailed &&
+      isHtmlDocumentRequest(request) &&
+      common.isDueForRefresh(config, cookies.idToken)
+    ) {
+      config.logger.debug("ID token expires soon, refreshing tokens");
+      return refreshTokens(config, {
+        request,
+        domainName,
+        requestedUri,
+        cookies,
+      });
+    }
 
-    // Return the request unaltered to allow access to the resource:
-    CONFIG.logger.debug("Access allowed:", request);
+    // Return the request (with identity headers, if configured) to allow access to the resource:
+    addIdentityHeaders(config, request.headers, payload);
+    config.logger.debug("Access allowed:", request);
     return request;
   } catch (err) {
-    CONFIG.logger.info("Access denied:", err);
+    config.logger.info("Access denied:", err);
 
     // If the JWT is expired we can try to refresh it
     // We'll only do this if refresh did not fail earlier (detected by a marker cookie)
-    // Refresh is done by redirecting the user to the refresh path (where it will actually happen)
+    // Refresh is done by redirecting the user to the refresh path (where it will actually happen), or inline (see refreshTokens())
     // If the refresh works, the user will be redirected back here (this time with valid JWTs)
     if (err instanceof common.JwtExpiredError && !cookies.refreshFailed) {
-      CONFIG.logger.debug("Redirecting user to refresh path");
-      return redirectToRefreshPath({ domainName, requestedUri });
+      config.logger.debug("Refreshing tokens");
+      return refreshTokens(config, {
+        request,
+        domainName,
+        requestedUri,
+        cookies,
+      });
     }
 
     // If the user is not in the right Cognito group, (s)he needs to contact an admin
     // If legitimate, the admin should add the user to the Cognito group,
     // after that the user will need to re-attempt sign-in
     if (err instanceof common.CognitoJwtInvalidGroupError) {
-      CONFIG.logger.debug("User isn't in the right Cognito group");
-      return showContactAdminErrorPage({ err, domainName });
+      config.logger.debug("User isn't in the right Cognito group");
+      return showContactAdminErrorPage(config, { err, domainName });
+    }
+
+    // Same for users whose claims don't meet the claim conditions,
+    // e.g. if the admin needs to update an attribute of the user,
+    // and for users whose access token lacks the required OAuth scopes
+    if (
+      err instanceof common.ClaimConditionError ||
+      err instanceof common.JwtInvalidScopeError
+    ) {
+      config.logger.debug(
+        "User's claims or scopes don't meet the requirements"
+      );
+      return showContactAdminErrorPage(config, { err, domainName });
+    }
+
+    // Sign-in attempts (each with its own nonce and PKCE cookies) are only started upon navigations to HTML documents:
+    // otherwise, every image, script or fetch() of a page would start an attempt too, and evict the page's own attempt.
+    // Other requests get a 401, that tells the app which page to navigate to, to start sign-in from there
+    if (!isHtmlDocumentRequest(request)) {
+      config.logger.debug("Not starting sign-in, as this isn't a navigation");
+      return redirectResponse(config, {
+        location: getSignInStartUrl(config, {
+          request,
+          domainName,
+          requestedUri,
+        }),
+        navigational: false,
+        error: "sign_in_required",
+        locationProperty: "signInUrl",
+      });
     }
 
     // Send the user to the Cognito Hosted UI to sign-in
-    CONFIG.logger.debug("Redirecting user to Cognito Hosted UI to sign-in");
-    return redirectToCognitoHostedUI({ domainName, requestedUri });
+    config.logger.debug("Redirecting user to Cognito Hosted UI to sign-in");
+    return redirectToCognitoHostedUI(config, {
+      domainName,
+      requestedUri,
+      signInAttempts: cookies.signInAttempts,
+    });
   }
 };
 
-function redirectToCognitoHostedUI({
-  domainName,
-  requestedUri,
-}: {
-  domainName: string;
-  requestedUri: string;
-}) {
+async function verifyTokens(
+  config: common.ConfigWithJwtVerifier,
+  {
+    idToken,
+    accessToken,
+    accessRule,
+  }: {
+    idToken: string;
+    accessToken?: string;
+    accessRule?: common.CompiledAccessRule;
+  }
+) {
+  // Verify the ID-token (JWT), this throws an error if the JWT is not valid
+  const payload = await config.jwtVerifier.verify(idToken, {
+    groups: getRequiredGroups(accessRule),
+  });
+  config.logger.debug("JWT payload:", payload);
+
+  // Check the claims in the ID-token, this throws an error if a claim condition is not met
+  common.assertClaimConditions(payload, [
+    ...config.claimConditions,
+    ...(accessRule?.claims ?? []),
+  ]);
+
+  // If the access rule requires OAuth scopes, verify the access token (JWT) too
+  if (accessRule?.scopes?.length) {
+    if (!accessToken) {
+      throw new Error("No access token present");
+    }
+    const accessTokenPayload = await config.accessTokenVerifier.verify(
+      accessToken,
+      { scope: accessRule.scopes, groups: null } // Groups were checked in the ID token already
+    );
+    config.logger.debug("Access token payload:", accessTokenPayload);
+  }
+
+  return payload;
+}
+
+/**
+ * Verify an access token that a client presented as bearer token (instead of an ID token).
+ * The same groups and claim conditions apply as for ID tokens, and the OAuth scopes if the access rule requires these
+ */
+async function verifyAccessToken(
+  config: common.ConfigWithJwtVerifier,
+  {
+    accessToken,
+    accessRule,
+  }: {
+    accessToken: string;
+    accessRule?: common.CompiledAccessRule;
+  }
+) {
+  const payload = await config.accessTokenVerifier.verify(accessToken, {
+    scope: accessRule?.scopes?.length ? accessRule.scopes : undefined,
+    groups: getRequiredGroups(accessRule),
+  });
+  config.logger.debug("Access token payload:", payload);
+  common.assertClaimConditions(payload, [
+    ...config.claimConditions,
+    ...(accessRule?.claims ?? []),
+  ]);
+  return payload;
+}
+
+/**
+ * If an access rule matched, the groups in that rule take precedence over the requiredGroup:
+ * undefined means the requiredGroup applies, null means any group (or none) will do
+ */
+function getRequiredGroups(accessRule?: common.CompiledAccessRule) {
+  if (accessRule?.access === "authenticated") {
+    return null;
+  } else if (accessRule?.access === "groups") {
+    return accessRule.groups;
+  }
+  return undefined;
+}
+
+const IDENTITY_SIGNATURE_HEADER = "x-auth-signature";
+
+/**
+ * Remove the identity headers of all profiles (not only those of the selected profile),
+ * as the origin may be shared between profiles, and may trust any of these headers
+ */
+function stripIdentityHeaders(headers: CloudFrontHeaders) {
+  [
+    ...CONFIGS.flatMap((config) => Object.values(config.identityHeaders)),
+    IDENTITY_SIGNATURE_HEADER,
+  ].forEach((headerName) => delete headers[headerName.toLowerCase()]);
+}
+
+/**
+ * Add the configured claims of the verified ID token as headers to the request, so the origin can use them.
+ *
+ * If a signing secret is configured, an HMAC signature header is added as well,
+ * so the origin can check that the headers were added by us (and not by someone calling the origin directly):
+ *
+ * x-auth-signature: t=<timestamp in seconds>,h=<signed header names, separated by ;>,v1=<hex HMAC-SHA256>
+ *
+ * The HMAC is calculated over the timestamp, and each signed header as "name:value", all separated by newlines
+ */
+function addIdentityHeaders(
+  config: common.ConfigWithJwtVerifier,
+  headers: CloudFrontHeaders,
+  payload: { [claim: string]: unknown }
+) {
+  const identityHeaders = Object.entries(config.identityHeaders)
+    .filter(([claim]) => payload[claim] !== undefined)
+    .map(([claim, headerName]) => {
+      const value = payload[claim];
+      const stringValue = Array.isArray(value)
+        ? value.join(",")
+        : typeof value === "string"
+        ? value
+        : JSON.stringify(value);
+      // Header values should be printable ASCII, so we percent-encode anything else
+      return {
+        key: headerName.toLowerCase(),
+        value: stringValue.replace(/[^\x20-\x7e]+/g, encodeURIComponent),
+      };
+    });
+  if (!identityHeaders.length) return;
+  identityHeaders.forEach(({ key, value }) => {
+    headers[key] = [{ key, value }];
+  });
+  if (!config.identityHeadersSigningSecret) return;
+  const timestamp = common.timestampInSeconds();
+  const signature = createHmac("sha256", config.identityHeadersSigningSecret)
+    .update(
+      [
+        timestamp,
+        ...identityHeaders.map(({ key, value }) => `${key}:${value}`),
+      ].join("\n")
+    )
+    .digest("hex");
+  headers[IDENTITY_SIGNATURE_HEADER] = [
+    {
+      key: IDENTITY_SIGNATURE_HEADER,
+      value: `t=${timestamp},h=${identityHeaders
+        .map(({ key }) => key)
+        .join(";")},v1=${signature}`,
+    },
+  ];
+}
+
+function getBearerToken(headers: CloudFrontHeaders) {
+  const authorization = headers["authorization"]?.[0]?.value;
+  const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match?.[1];
+}
+
+function bearerTokenErrorResponse(
+  config: common.ConfigWithJwtVerifier,
+  {
+    err,
+    domainName,
+  }: {
+    err: unknown;
+    domainName: string;
+  }
+) {
+  // See RFC 6750: users that are not authorized get a 403, other errors mean the token is not valid
+  const insufficientScope =
+    err instanceof common.CognitoJwtInvalidGroupError ||
+    err instanceof common.ClaimConditionError ||
+    err instanceof common.JwtInvalidScopeError;
+  const error = insufficientScope ? "insufficient_scope" : "invalid_token";
+  // The description goes into a quoted header value, so it may only hold printable ASCII, without quotes and backslashes
+  const errorDescription = `${err instanceof Error ? err.message : err}`
+    .replace(/[^\x20-\x7e]+/g, " ")
+    .replace(/["\\]/g, "'");
+  const response = {
+    body: JSON.stringify({ error, error_description: errorDescription }),
+    status: insufficientScope ? "403" : "401",
+    statusDescription: insufficientScope ? "Forbidden" : "Unauthorized",
+    headers: {
+      ...config.cloudFrontHeaders,
+      "www-authenticate": [
+        {
+          key: "WWW-Authenticate",
+          value: `Bearer realm="${domainName}", error="${error}", error_description="${errorDescription}"`,
+        },
+      ],
+      "content-type": [
+        {
+          key: "Content-Type",
+          value: "application/json",
+        },
+      ],
+    },
+  };
+  config.logger.debug("Returning response:\n", JSON.stringify(response));
+  return response;
+}
+
+function redirectToCognitoHostedUI(
+  config: common.ConfigWithJwtVerifier,
+  {
+    domainName,
+    requestedUri,
+    signInAttempts,
+  }: {
+    domainName: string;
+    requestedUri: string;
+    signInAttempts?: { [attemptId: string]: common.SignInAttempt };
+  }
+) {
   // Generate new state which involves a signed nonce
   // This way we can check later whether the sign-in redirect was done by us (it should, to prevent CSRF attacks)
-  const nonce = generateNonce();
+  // The cookies are keyed by attempt ID, so sign-in attempts in other browser tabs don't overwrite them
+  const attemptId = common.generateSignInAttemptId();
+  const cookieNames = common.getSignInAttemptCookieNames(
+    config.internalCookieNames,
+    attemptId
+  );
+  const nonce = common.generateNonce(config);
   const state = {
     nonce,
     nonceHmac: common.sign(
       nonce,
-      CONFIG.nonceSigningSecret,
-      CONFIG.nonceLength
+      config.nonceSigningSecret,
+      config.nonceLength
     ),
-    ...generatePkceVerifier(),
+    ...generatePkceVerifier(config),
   };
-  CONFIG.logger.debug("Using new state\n", state);
+  config.logger.debug("Using new state\n", state);
 
   const loginQueryString = stringifyQueryString({
-    redirect_uri: `https://${domainName}${CONFIG.redirectPathSignIn}`,
+    redirect_uri: `https://${domainName}${config.redirectPathSignIn}`,
     response_type: "code",
-    client_id: CONFIG.clientId,
+    client_id: config.clientId,
     state:
       // Encode the state variable as base64 to avoid a bug in Cognito hosted UI when using multiple identity providers
       // Cognito decodes the URL, causing a malformed link due to the JSON string, and results in an empty 400 response from Cognito.
       common.urlSafe.stringify(
         Buffer.from(
-          JSON.stringify({ nonce: state.nonce, requestedUri })
+          JSON.stringify({
+            nonce: state.nonce,
+            attemptId,
+            requestedUri: common.getValidRedirectUrl(config, {
+              requestedUri,
+              domainName,
+            }),
+          })
         ).toString("base64")
       ),
-    scope: CONFIG.oauthScopes.join(" "),
+    scope: config.oauthScopes.join(" "),
     code_challenge_method: "S256",
     code_challenge: state.pkceHash,
   });
 
   // Return redirect to Cognito Hosted UI for sign-in
-  const response = {
-    status: "307",
-    statusDescription: "Temporary Redirect",
-    headers: {
-      location: [
-        {
-          key: "location",
-          value: `https://${CONFIG.cognitoAuthDomain}/oauth2/authorize?${loginQueryString}`,
-        },
-      ],
-      "set-cookie": [
-        ...getNonceCookies({ nonce, ...CONFIG }),
-        {
-          key: "set-cookie",
-          value: `spa-auth-edge-pkce=${encodeURIComponent(state.pkce)}; ${
-            CONFIG.cookieSettings.nonce
-          }`,
+  return redirectResponse(config, {
+    location: `${config.endpoints.authorization}?${loginQueryString}`,
+    setCookies: [
+      ...common.getNonceCookies({ nonce, cookieNames, ...config }),
+      {
+        key: "set-cookie",
+        value: `${cookieNames.pkce}=${encodeURIComponent(state.pkce)}; ${
+          config.cookieSettings.nonce
+        }`,
+      },
+      ...common.expireSignInAttemptCookies(config, signInAttempts),
+    ],
+    navigational: true,
+    error: "sign_in_required",
+    locationProperty: "signInUrl",
+  });
+}
+
+/**
+ * The URL to navigate to, to start sign-in: the page that the request came from (if that's on this site),
+ * as that's where the user should end up after sign-in, and otherwise the requested URL itself
+ */
+function getSignInStartUrl(
+  config: common.ConfigWithJwtVerifier,
+  {
+    request,
+    domainName,
+    requestedUri,
+  }: {
+    request: CloudFrontRequest;
+    domainName: string;
+    requestedUri: string;
+  }
+) {
+  const referer = request.headers["referer"]?.[0]?.value;
+  return common.getValidRedirectUrl(config, {
+    requestedUri: referer?.startsWith(`https://${domainName}/`)
+      ? referer
+      : requestedUri,
+    domainName,
+  });
+}
+
+/**
+ * With inline refresh, we call the token endpoint ourselves, and redirect the user back to the same URL with the new tokens,
+ * which saves the round trips to the refresh path and back (that e.g. video players handle badly). We only do so for media requests:
+ * other requests come in bunches (e.g. the images and scripts of a page), and each would call the token endpoint,
+ * whereas the refresh path refreshes the tokens once for the whole bunch (see the refresh-auth function).
+ * Otherwise (e.g. the refresh token cookie wasn't sent along), or if that fails, the user is redirected to the refresh path
+ */
+async function refreshTokens(
+  config: common.ConfigWithJwtVerifier,
+  {
+    request,
+    domainName,
+    requestedUri,
+    cookies,
+  }: {
+    request: CloudFrontRequest;
+    domainName: string;
+    requestedUri: string;
+    cookies: ReturnType<typeof common["extractAndParseCookies"]>;
+  }
+) {
+  if (config.inlineRefresh && cookies.refreshToken && isMediaRequest(request)) {
+    try {
+      const tokens = await common.refreshTokens(config, cookies.refreshToken);
+      const sessionId = config.sessions ? cookies.sessionId : undefined;
+      if (config.sessions && sessionId) {
+        await config.sessions.put(sessionId, {
+          clientId: config.clientId,
+          idToken: tokens.id,
+          accessToken: tokens.access,
+          refreshToken: tokens.refresh ?? cookies.refreshToken,
+        });
+      }
+      const response = {
+        status: "307",
+        statusDescription: "Temporary Redirect",
+        headers: {
+          location: [
+            {
+              key: "location",
+              value: `https://${domainName}${requestedUri}`,
+            },
+          ],
+          "set-cookie": common.generateCookieHeaders.refresh({
+            ...config,
+            tokens,
+            sessionId,
+            requestCookies: common.extractCookiesFromHeaders(request.headers),
+          }),
+          ...config.cloudFrontHeaders,
         },
-      ],
-      ...CONFIG.cloudFrontHeaders,
-    },
-  };
-  CONFIG.logger.debug("Returning response:\n", JSON.stringify(response));
-  return response;
+      };
+      config.logger.debug("Returning response:\n", JSON.stringify(response));
+      return response;
+    } catch (err) {
+      config.logger.info(
+        "Inline refresh failed, redirecting user to refresh path instead:",
+        err
+      );
+    }
+  }
+  config.logger.debug("Redirecting user to refresh path");
+  return redirectToRefreshPath(config, {
+    domainName,
+    requestedUri,
+    navigational: isNavigationalRequest(request),
+  });
 }
 
-function redirectToRefreshPath({
-  domainName,
-  requestedUri,
-}: {
-  domainName: string;
-  requestedUri: string;
-}) {
-  const nonce = generateNonce();
-  const response = {
-    status: "307",
-    statusDescription: "Temporary Redirect",
-    headers: {
-      location: [
-        {
-          key: "location",
-          value: `https://${domainName}${
-            CONFIG.redirectPathAuthRefresh
-          }?${stringifyQueryString({ requestedUri, nonce })}`,
+function redirectToRefreshPath(
+  config: common.ConfigWithJwtVerifier,
+  {
+    domainName,
+    requestedUri,
+    navigational,
+  }: {
+    domainName: string;
+    requestedUri: string;
+    navigational: boolean;
+  }
+) {
+  const nonce = common.generateNonce(config);
+  return redirectResponse(config, {
+    location: `https://${domainName}${
+      config.redirectPathAuthRefresh
+    }?${stringifyQueryString({
+      requestedUri: common.getValidRedirectUrl(config, {
+        requestedUri,
+        domainName,
+      }),
+      nonce,
+      // The refresh path only accepts this nonce once it's superseded (by a concurrent request), if it's signed by us
+      nonceHmac: common.sign(
+        nonce,
+        config.nonceSigningSecret,
+        config.nonceLength
+      ),
+    })}`,
+    setCookies: common.getNonceCookies({
+      nonce,
+      cookieNames: config.internalCookieNames,
+      ...config,
+    }),
+    navigational,
+    error: "refresh_required",
+    locationProperty: "refreshUrl",
+  });
+}
+
+/**
+ * Determine whether the request is a navigation by the user (e.g. following a link), that can follow our redirects.
+ *
+ * Other requests can't: scripts (fetch, XMLHttpRequest) would follow the redirect to the Cognito Hosted UI out of sight of the user,
+ * and requests with a body (POST, PUT, DELETE, ...) would send that body along to the redirect location.
+ */
+function isNavigationalRequest(request: CloudFrontRequest) {
+  if (!["GET", "HEAD"].includes(request.method)) {
+    return false;
+  }
+  // Browsers send Sec-Fetch-Mode "cors" or "same-origin" for fetch() and XMLHttpRequest, and "navigate" for navigations
+  const secFetchMode = request.headers["sec-fetch-mode"]?.[0]?.value;
+  if (secFetchMode === "cors" || secFetchMode === "same-origin") {
+    return false;
+  }
+  // Many client libraries set X-Requested-With (also for older browsers, that don't send Sec-Fetch-Mode)
+  if (request.headers["x-requested-with"]?.[0]?.value === "XMLHttpRequest") {
+    return false;
+  }
+  // Clients that want JSON (and not HTML) won't be helped by a sign-in page either
+  const accept = request.headers["accept"]?.[0]?.value ?? "";
+  if (accept.includes("application/json") && !accept.includes("text/html")) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Determine whether the request is a navigation to an HTML document (and not e.g. to an image in a browser that doesn't send Sec-Fetch-Dest)
+ */
+function isHtmlDocumentRequest(request: CloudFrontRequest) {
+  if (!isNavigationalRequest(request)) {
+    return false;
+  }
+  const secFetchDest = request.headers["sec-fetch-dest"]?.[0]?.value;
+  if (secFetchDest) {
+    return secFetchDest === "document";
+  }
+  return (request.headers["accept"]?.[0]?.value ?? "").includes("text/html");
+}
+
+/**
+ * Determine whether the request is for audio, video or subtitles (e.g. by a video player). Browsers send a Range header for media,
+ * as do media players that fetch the media themselves. Media players request one range or segment at a time,
+ * so these requests don't come in bunches
+ */
+function isMediaRequest(request: CloudFrontRequest) {
+  const secFetchDest = request.headers["sec-fetch-dest"]?.[0]?.value;
+  return (
+    ["audio", "video", "track"].includes(secFetchDest ?? "") ||
+    !!request.headers["range"]
+  );
+}
+
+/**
+ * Redirect navigational requests to the location.
+ * Other requests get a 401 with a JSON body that includes the location instead, so that the app can send the user there.
+ * The cookies (if any) are set in both cases, so the user can go to the location later.
+ */
+function redirectResponse(
+  config: common.ConfigWithJwtVerifier,
+  {
+    location,
+    setCookies,
+    navigational,
+    error,
+    locationProperty,
+  }: {
+    location: string;
+    setCookies?: { key: string; value: string }[];
+    navigational: boolean;
+    error: string;
+    locationProperty: string;
+  }
+) {
+  const response = navigational
+    ? {
+        status: "307",
+        statusDescription: "Temporary Redirect",
+        headers: {
+          location: [
+            {
+              key: "location",
+              value: location,
+            },
+          ],
+          ...(setCookies && { "set-cookie": setCookies }),
+          ...config.cloudFrontHeaders,
         },
-      ],
-      "set-cookie": getNonceCookies({ nonce, ...CONFIG }),
-      ...CONFIG.cloudFrontHeaders,
-    },
-  };
-  CONFIG.logger.debug("Returning response:\n", JSON.stringify(response));
+      }
+    : {
+        body: JSON.stringify({ error, [locationProperty]: location }),
+        status: "401",
+        statusDescription: "Unauthorized",
+        headers: {
+          ...config.cloudFrontHeaders,
+          ...(setCookies && { "set-cookie": setCookies }),
+          "content-type": [
+            {
+              key: "Content-Type",
+              value: "application/json",
+            },
+          ],
+        },
+      };
+  config.logger.debug("Returning response:\n", JSON.stringify(response));
   return response;
 }
 
-function showContactAdminErrorPage({
-  err,
-  domainName,
-}: {
-  err: unknown;
-  domainName: string;
-}) {
+function showContactAdminErrorPage(
+  config: common.ConfigWithJwtVerifier,
+  {
+    err,
+    domainName,
+  }: {
+    err: unknown;
+    domainName: string;
+  }
+) {
   const response = {
     body: common.createErrorHtml({
       title: "Not Authorized",
@@ -172,12 +711,12 @@ function showContactAdminErrorPage({
         "You are not authorized for this site. Please contact the admin.",
       expandText: "Click for details",
       details: `${err}`,
-      linkUri: `https://${domainName}${CONFIG.signOutUrl}`,
+      linkUri: `https://${domainName}${config.signOutUrl}`,
       linkText: "Try again",
     }),
     status: "200",
     headers: {
-      ...CONFIG.cloudFrontHeaders,
+      ...config.cloudFrontHeaders,
       "content-type": [
         {
           key: "Content-Type",
@@ -186,43 +725,14 @@ function showContactAdminErrorPage({
       ],
     },
   };
-  CONFIG.logger.debug("Returning response:\n", JSON.stringify(response));
+  config.logger.debug("Returning response:\n", JSON.stringify(response));
   return response;
 }
 
-function getNonceCookies({
-  nonce,
-  nonceLength,
-  nonceSigningSecret,
-  cookieSettings,
-}: {
-  nonce: string;
-  nonceLength: number;
-  nonceSigningSecret: string;
-  cookieSettings: {
-    nonce: string;
-  };
-}) {
-  return [
-    {
-      key: "set-cookie",
-      value: `spa-auth-edge-nonce=${encodeURIComponent(nonce)}; ${
-        cookieSettings.nonce
-      }`,
-    },
-    {
-      key: "set-cookie",
-      value: `spa-auth-edge-nonce-hmac=${encodeURIComponent(
-        common.sign(nonce, nonceSigningSecret, nonceLength)
-      )}; ${cookieSettings.nonce}`,
-    },
-  ];
-}
-
-function generatePkceVerifier() {
+function generatePkceVerifier(config: common.ConfigWithJwtVerifier) {
   const pkce = common.generateSecret(
-    CONFIG.secretAllowedCharacters,
-    CONFIG.pkceLength
+    config.secretAllowedCharacters,
+    config.pkceLength
   );
   const verifier = {
     pkce,
@@ -230,16 +740,6 @@ function generatePkceVerifier() {
       createHash("sha256").update(pkce, "utf8").digest("base64")
     ),
   };
-  CONFIG.logger.debug("Generated PKCE verifier:\n", verifier);
+  config.logger.debug("Generated PKCE verifier:\n", verifier);
   return verifier;
 }
-
-function generateNonce() {
-  const randomString = common.generateSecret(
-    CONFIG.secretAllowedCharacters,
-    CONFIG.nonceLength
-  );
-  const nonce = `${common.timestampInSeconds()}T${randomString}`;
-  CONFIG.logger.debug("Generated new nonce:", nonce);
-  return nonce;
-}
@@ -0,0 +1,47 @@
+// Copyright 2026 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import {
+  accessToken,
+  asResponse,
+  baseConfig,
+  clientId,
+  idToken,
+  loadHandler,
+  requestEvent,
+  sessionStore,
+  withSessionStore,
+} from "../shared/test-helpers";
+
+describe("signed in already", () => {
+  test("redirects back if the session has an ID token", async () => {
+    const handler = loadHandler(
+      "../parse-auth",
+      { ...baseConfig, sessionStore },
+      withSessionStore({ idToken: idToken(), accessToken: accessToken() })
+    );
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/parseauth",
+          cookies: [`spa-auth-edge-session-${clientId}=session-id`],
+        })
+      )
+    );
+    expect(result.status).toBe("307");
+    expect(result.headers.location[0].value).toBe("https://www.example.com");
+  });
+
+  test("shows the error without a session", async () => {
+    const handler = loadHandler(
+      "../parse-auth",
+      { ...baseConfig, sessionStore },
+      withSessionStore({ idToken: idToken(), accessToken: accessToken() })
+    );
+    const result = asResponse(
+      await handler(requestEvent({ uri: "/parseauth" }))
+    );
+    expect(result.status).toBe("200");
+    expect(result.body).toContain("Sign-in issue");
+  });
+});
@@ -8,34 +8,35 @@ import {
 import { CloudFrontRequestHandler } from "aws-lambda";
 import * as common from "../shared/shared";
 
-const CONFIG = common.getCompleteConfig();
-CONFIG.logger.debug("Configuration loaded:", CONFIG);
+const CONFIGS = common.getCompleteConfigProfiles();
+CONFIGS[0].logger.debug("Configuration loaded:", CONFIGS);
 
 export const handler: CloudFrontRequestHandler = async (event) => {
-  CONFIG.logger.debug("Event:", event);
   const request = event.Records[0].cf.request;
+  const config = common.selectConfigProfile(CONFIGS, request);
+  config.logger.debug("Event:", event);
   const domainName = request.headers["host"][0].value;
-  const cognitoTokenEndpoint = `https://${CONFIG.cognitoAuthDomain}/oauth2/token`;
+  const tokenEndpoint = config.endpoints.token;
   let redirectedFromUri = `https://${domainName}`;
-  let idTokenInCookies: string | undefined = undefined;
+  let cookies: ReturnType<typeof common.extractAndParseCookies> | undefined =
+    undefined;
   try {
-    const cookies = common.extractAndParseCookies(
-      request.headers,
-      CONFIG.clientId,
-      CONFIG.cookieCompatibility
-    );
-    ({ idToken: idTokenInCookies } = cookies);
-    const { code, pkce, requestedUri } = validateQueryStringAndCookies({
-      querystring: request.querystring,
-      cookies,
+    cookies = common.extractAndParseCookies(request.headers, config);
+    const { code, pkce, requestedUri, attemptId } =
+      validateQueryStringAndCookies(config, {
+        querystring: request.querystring,
+        cookies,
+      });
+    config.logger.debug("Query string and cookies are valid");
+    redirectedFromUri = common.getValidRedirectUrl(config, {
+      requestedUri,
+      domainName,
     });
-    CONFIG.logger.debug("Query string and cookies are valid");
-    redirectedFromUri += common.ensureValidRedirectPath(requestedUri);
 
     const body = stringifyQueryString({
       grant_type: "authorization_code",
-      client_id: CONFIG.clientId,
-      redirect_uri: `https://${domainName}${CONFIG.redirectPathSignIn}`,
+      client_id: config.clientId,
+      redirect_uri: `https://${domainName}${config.redirectPathSignIn}`,
       code,
       code_verifier: pkce,
     });
@@ -47,14 +48,14 @@ export const handler: CloudFrontRequestHandler = async (event) => {
         "Content-Type": "application/x-www-form-urlencoded",
       },
     };
-    if (CONFIG.clientSecret) {
+    if (config.clientSecret) {
       const encodedSecret = Buffer.from(
-        `${CONFIG.clientId}:${CONFIG.clientSecret}`
+        `${config.clientId}:${config.clientSecret}`
       ).toString("base64");
       requestConfig.headers!.Authorization = `Basic ${encodedSecret}`;
     }
-    CONFIG.logger.debug("HTTP POST to Cognito token endpoint:\n", {
-      uri: cognitoTokenEndpoint,
+    config.logger.debug("HTTP POST to Cognito token endpoint:\n", {
+      uri: tokenEndpoint,
       body,
       requestConfig,
     });
@@ -68,17 +69,28 @@ export const handler: CloudFrontRequestHandler = async (event) => {
       },
     } = await common
       .httpPostToCognitoWithRetry(
-        cognitoTokenEndpoint,
+        tokenEndpoint,
         Buffer.from(body),
         requestConfig,
-        CONFIG.logger
+        config.logger
       )
       .catch((err) => {
         throw new Error(
           `Failed to exchange authorization code for tokens: ${err}`
         );
       });
-    CONFIG.logger.info("Successfully exchanged authorization code for tokens");
+    config.logger.info("Successfully exchanged authorization code for tokens");
+    let sessionId: string | undefined = undefined;
+    if (config.sessions) {
+      // Session store mode: keep the tokens server-side, the browser only gets the session ID
+      sessionId = common.generateSessionId();
+      await config.sessions.put(sessionId, {
+        clientId: config.clientId,
+        idToken,
+        accessToken,
+        refreshToken,
+      });
+    }
     const response = {
       status: "307",
       statusDescription: "Temporary Redirect",
@@ -89,25 +101,36 @@ export const handler: CloudFrontRequestHandler = async (event) => {
             value: redirectedFromUri,
           },
         ],
-        "set-cookie": common.generateCookieHeaders.signIn({
-          tokens: {
-            id: idToken,
-            access: accessToken,
-            refresh: refreshToken,
-          },
-          ...CONFIG,
-        }),
-        ...CONFIG.cloudFrontHeaders,
+        "set-cookie": [
+          ...common.generateCookieHeaders.signIn({
+            tokens: {
+              id: idToken,
+              access: accessToken,
+              refresh: refreshToken,
+            },
+            sessionId,
+            requestCookies: common.extractCookiesFromHeaders(request.headers),
+            ...config,
+          }),
+          // Clean up the cookies of this sign-in attempt (but not those of attempts in other tabs)
+          // The cookies of stale sign-in attempts are cleaned up by generateCookieHeaders
+          ...common.expireSignInAttemptCookies(
+            config,
+            {},
+            attemptId ? [attemptId] : []
+          ),
+        ],
+        ...config.cloudFrontHeaders,
       },
     };
-    CONFIG.logger.debug("Returning response:\n", JSON.stringify(response));
+    config.logger.debug("Returning response:\n", JSON.stringify(response));
     return response;
   } catch (err) {
-    CONFIG.logger.error(err);
-    if (idTokenInCookies) {
-      // There is an ID token in the cookies - maybe the user signed in already (e.g. in another browser tab)
+    config.logger.error(err);
+    if (cookies && (await getExistingIdToken(config, cookies))) {
+      // There is an ID token in the cookies (or session) - maybe the user signed in already (e.g. in another browser tab)
       // We'll redirect the user back to where they came from, and let checkAuth worry about whether the JWT is valid
-      CONFIG.logger.debug(
+      config.logger.debug(
         "ID token found, redirecting back to:",
         redirectedFromUri
       );
@@ -122,10 +145,10 @@ export const handler: CloudFrontRequestHandler = async (event) => {
               value: redirectedFromUri,
             },
           ],
-          ...CONFIG.cloudFrontHeaders,
+          ...config.cloudFrontHeaders,
         },
       };
-      CONFIG.logger.debug("Returning response:\n", JSON.stringify(response));
+      config.logger.debug("Returning response:\n", JSON.stringify(response));
       return response;
     }
     let htmlParams: Parameters<typeof common.createErrorHtml>[0];
@@ -152,7 +175,7 @@ export const handler: CloudFrontRequestHandler = async (event) => {
       body: common.createErrorHtml(htmlParams),
       status: "200",
       headers: {
-        ...CONFIG.cloudFrontHeaders,
+        ...config.cloudFrontHeaders,
         "content-type": [
           {
             key: "Content-Type",
@@ -161,15 +184,34 @@ export const handler: CloudFrontRequestHandler = async (event) => {
         ],
       },
     };
-    CONFIG.logger.debug("Returning response:\n", JSON.stringify(response));
+    config.logger.debug("Returning response:\n", JSON.stringify(response));
     return response;
   }
 };
 
-function validateQueryStringAndCookies(props: {
-  querystring: string;
-  cookies: ReturnType<typeof common.extractAndParseCookies>;
-}) {
+/**
+ * Get the ID token the user has already, from the cookies or (in session store mode) from the session
+ */
+async function getExistingIdToken(
+  config: common.CompleteConfig,
+  cookies: ReturnType<typeof common.extractAndParseCookies>
+) {
+  try {
+    const { idToken } = await common.resolveSession(config, cookies);
+    return idToken;
+  } catch (err) {
+    config.logger.error("Failed to read session:", err);
+    return undefined;
+  }
+}
+
+function validateQueryStringAndCookies(
+  config: common.CompleteConfig,
+  props: {
+    querystring: string;
+    cookies: ReturnType<typeof common.extractAndParseCookies>;
+  }
+) {
   // Check if Cognito threw an Error. Cognito puts the error in the query string
   const {
     code,
@@ -197,7 +239,11 @@ function validateQueryStringAndCookies(props: {
   }
 
   // The querystring state should be a JSON string
-  let parsedState: { nonce?: string; requestedUri?: string };
+  let parsedState: {
+    nonce?: string;
+    attemptId?: string;
+    requestedUri?: string;
+  };
   try {
     parsedState = JSON.parse(
       Buffer.from(common.urlSafe.parse(state), "base64").toString()
@@ -215,8 +261,15 @@ function validateQueryStringAndCookies(props: {
     );
   }
 
-  // The querystring state needs to correlate to the cookies
-  const { nonce: originalNonce, pkce, nonceHmac } = props.cookies;
+  // The querystring state needs to correlate to the cookies of this sign-in attempt
+  // (State without attempt ID was created before sign-in attempts had their own cookies)
+  const {
+    nonce: originalNonce,
+    pkce,
+    nonceHmac,
+  } = parsedState.attemptId
+    ? props.cookies.signInAttempts?.[parsedState.attemptId] ?? {}
+    : props.cookies;
   if (
     !parsedState.nonce ||
     !originalNonce ||
@@ -238,10 +291,8 @@ function validateQueryStringAndCookies(props: {
   }
 
   // Nonce should not be too old
-  const nonceTimestamp = parseInt(
-    parsedState.nonce.slice(0, parsedState.nonce.indexOf("T"))
-  );
-  if (common.timestampInSeconds() - nonceTimestamp > CONFIG.nonceMaxAge) {
+  const nonceTimestamp = common.getNonceTimestamp(parsedState.nonce);
+  if (common.timestampInSeconds() - nonceTimestamp > config.nonceMaxAge) {
     throw new common.RequiresConfirmationError(
       `Nonce is too old (nonce is from ${new Date(
         nonceTimestamp * 1000
@@ -252,8 +303,8 @@ function validateQueryStringAndCookies(props: {
   // Nonce should have the right signature: proving we were the ones generating it (and e.g. not malicious JS on a subdomain)
   const calculatedHmac = common.sign(
     parsedState.nonce,
-    CONFIG.nonceSigningSecret,
-    CONFIG.nonceLength
+    config.nonceSigningSecret,
+    config.nonceLength
   );
   if (calculatedHmac !== nonceHmac) {
     throw new common.RequiresConfirmationError(
@@ -261,5 +312,10 @@ function validateQueryStringAndCookies(props: {
     );
   }
 
-  return { code, pkce, requestedUri: parsedState.requestedUri ?? "" };
+  return {
+    code,
+    pkce,
+    requestedUri: parsedState.requestedUri ?? "",
+    attemptId: parsedState.attemptId,
+  };
 }
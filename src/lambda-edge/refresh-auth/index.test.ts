@@ -0,0 +1,427 @@
+// Copyright 2026 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { stringify as stringifyQueryString } from "querystring";
+import { sign } from "../shared/shared";
+import {
+  accessToken,
+  asResponse,
+  baseConfig,
+  clientId,
+  idToken,
+  loadHandler,
+  requestEvent,
+  sessionStore,
+  sessionStoreEndpoint,
+  tokenCookies,
+  withSessionStore,
+} from "../shared/test-helpers";
+
+describe("rotated refresh tokens", () => {
+  const tokenEndpoint = jest.fn();
+  const now = Math.floor(Date.now() / 1000);
+  const nonce = `${now}Tnonce`;
+  const nonceCookies = [
+    `spa-auth-edge-nonce=${nonce}`,
+    `spa-auth-edge-nonce-hmac=${sign(
+      nonce,
+      baseConfig.nonceSigningSecret,
+      16
+    )}`,
+  ];
+  const refreshRequest = (cookies: string[]) =>
+    requestEvent({
+      uri: "/refreshauth",
+      querystring: stringifyQueryString({ requestedUri: "/page", nonce }),
+      cookies: [...cookies, ...nonceCookies],
+    });
+  const tokenResponse = (tokens: { [key: string]: string }) => ({
+    status: 200,
+    headers: { "content-type": "application/json" },
+    data: Buffer.from(
+      JSON.stringify({
+        id_token: idToken(),
+        access_token: accessToken(),
+        ...tokens,
+      })
+    ),
+  });
+
+  beforeEach(() => tokenEndpoint.mockReset());
+
+  test("are put in the refresh token cookie, that is sent to the refresh path only", async () => {
+    tokenEndpoint.mockResolvedValue(
+      tokenResponse({ refresh_token: "rotated-refresh-token" })
+    );
+    const handler = loadHandler("../refresh-auth", baseConfig, tokenEndpoint);
+    const result = asResponse(
+      await handler(
+        refreshRequest(
+          tokenCookies({
+            id: idToken({ exp: now - 10 }),
+            refresh: "refresh-token",
+          })
+        )
+      )
+    );
+    expect(result.status).toBe("307");
+    expect(
+      result.headers["set-cookie"].map(({ value }) => value)
+    ).toContainEqual(
+      expect.stringMatching(
+        /\.user\.refreshToken=rotated-refresh-token; Path=\/refreshauth;/
+      )
+    );
+  });
+
+  test("are optional: without one, the refresh token cookie is left alone", async () => {
+    tokenEndpoint.mockResolvedValue(tokenResponse({}));
+    const handler = loadHandler("../refresh-auth", baseConfig, tokenEndpoint);
+    const result = asResponse(
+      await handler(
+        refreshRequest(
+          tokenCookies({
+            id: idToken({ exp: now - 10 }),
+            refresh: "refresh-token",
+          })
+        )
+      )
+    );
+    expect(result.status).toBe("307");
+    expect(
+      result.headers["set-cookie"].map(({ value }) => value)
+    ).not.toContainEqual(expect.stringContaining(".user.refreshToken="));
+  });
+
+  test("are put in the session, in session store mode", async () => {
+    tokenEndpoint.mockResolvedValue(
+      tokenResponse({ refresh_token: "rotated-refresh-token" })
+    );
+    const fetch = withSessionStore(
+      {
+        idToken: idToken({ exp: now - 10 }),
+        accessToken: accessToken(),
+        refreshToken: "refresh-token",
+      },
+      tokenEndpoint
+    );
+    const handler = loadHandler(
+      "../refresh-auth",
+      { ...baseConfig, sessionStore },
+      fetch
+    );
+    const result = asResponse(
+      await handler(
+        refreshRequest([`spa-auth-edge-session-${clientId}=session-id`])
+      )
+    );
+    expect(result.status).toBe("307");
+    const sessionUpdates = fetch.mock.calls
+      .filter(
+        ([url, , { headers }]) =>
+          url === sessionStoreEndpoint &&
+          headers["x-amz-target"] === "DynamoDB_20120810.PutItem"
+      )
+      .map(([, body]) => JSON.parse(body.toString()).Item);
+    expect(sessionUpdates).toEqual([
+      expect.objectContaining({
+        refreshToken: { S: "rotated-refresh-token" },
+      }),
+    ]);
+  });
+});
+
+describe("superseded nonces", () => {
+  const fetch = jest.fn();
+  const handler = loadHandler("../refresh-auth", baseConfig, fetch);
+  const now = Math.floor(Date.now() / 1000);
+  const supersededNonce = `${now - 5}Tsuperseded`;
+  const currentNonce = `${now}Tcurrent`;
+  const signNonce = (nonce: string) =>
+    sign(nonce, baseConfig.nonceSigningSecret, 16);
+  const refreshRequest = (query: { [key: string]: string }) =>
+    requestEvent({
+      uri: "/refreshauth",
+      querystring: stringifyQueryString({ requestedUri: "/page", ...query }),
+      cookies: [
+        ...tokenCookies({
+          id: idToken({ exp: now - 10 }),
+          refresh: "refresh-token",
+        }),
+        `spa-auth-edge-nonce=${currentNonce}`,
+        `spa-auth-edge-nonce-hmac=${signNonce(currentNonce)}`,
+      ],
+    });
+
+  beforeEach(() => {
+    fetch.mockReset();
+    fetch.mockResolvedValue({
+      status: 200,
+      headers: { "content-type": "application/json" },
+      data: Buffer.from(
+        JSON.stringify({ id_token: idToken(), access_token: "access-token" })
+      ),
+    });
+  });
+
+  test("are accepted if signed", async () => {
+    const result = asResponse(
+      await handler(
+        refreshRequest({
+          nonce: supersededNonce,
+          nonceHmac: signNonce(supersededNonce),
+        })
+      )
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe("307");
+    expect(result.headers.location[0].value).toBe(
+      "https://www.example.com/page"
+    );
+  });
+
+  test.each([
+    ["without signature", {}],
+    ["with another nonce's signature", { nonceHmac: signNonce(currentNonce) }],
+  ])("are rejected %s", async (_, query) => {
+    const result = asResponse(
+      await handler(refreshRequest({ nonce: supersededNonce, ...query }))
+    );
+    expect(fetch).not.toHaveBeenCalled();
+    expect(result.body).toContain("Nonce mismatch");
+  });
+});
+
+describe("concurrent refreshes with refresh token rotation", () => {
+  const now = Math.floor(Date.now() / 1000);
+  const nonce = `${now}Tnonce`;
+  const nonceCookies = [
+    `spa-auth-edge-nonce=${nonce}`,
+    `spa-auth-edge-nonce-hmac=${sign(
+      nonce,
+      baseConfig.nonceSigningSecret,
+      16
+    )}`,
+  ];
+  const query = { requestedUri: "/page", nonce };
+  const invalidGrant = {
+    status: 400,
+    headers: { "content-type": "application/json" },
+    data: Buffer.from(JSON.stringify({ error: "invalid_grant" })),
+  };
+  const setCookies = (result: ReturnType<typeof asResponse>) =>
+    (result.headers["set-cookie"] ?? []).map(({ value }) => value);
+
+  test("retry once in cookie mode, as the browser may not have the rotated refresh token yet", async () => {
+    const fetch = jest.fn().mockResolvedValue(invalidGrant);
+    const handler = loadHandler("../refresh-auth", baseConfig, fetch);
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/refreshauth",
+          querystring: stringifyQueryString(query),
+          cookies: [
+            ...tokenCookies({
+              id: idToken({ exp: now - 10 }),
+              refresh: "superseded-refresh-token",
+            }),
+            ...nonceCookies,
+          ],
+        })
+      )
+    );
+    expect(result.status).toBe("307");
+    expect(result.headers.location[0].value).toBe(
+      `https://www.example.com/refreshauth?${stringifyQueryString({
+        ...query,
+        retry: "true",
+      })}`
+    );
+    expect(setCookies(result)).toEqual([]);
+  });
+
+  test("redirect back upon the retry, if the concurrent refresh succeeded by then", async () => {
+    const fetch = jest.fn();
+    const handler = loadHandler("../refresh-auth", baseConfig, fetch);
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/refreshauth",
+          querystring: stringifyQueryString({ ...query, retry: "true" }),
+          cookies: tokenCookies({
+            id: idToken(),
+            refresh: "rotated-refresh-token",
+          }),
+        })
+      )
+    );
+    expect(fetch).not.toHaveBeenCalled();
+    expect(result.status).toBe("307");
+    expect(result.headers.location[0].value).toBe(
+      "https://www.example.com/page"
+    );
+    expect(setCookies(result)).toEqual([]);
+  });
+
+  test("expire the refresh token cookie, if the retry fails too", async () => {
+    const fetch = jest.fn().mockResolvedValue(invalidGrant);
+    const handler = loadHandler("../refresh-auth", baseConfig, fetch);
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/refreshauth",
+          querystring: stringifyQueryString({ ...query, retry: "true" }),
+          cookies: [
+            ...tokenCookies({
+              id: idToken({ exp: now - 10 }),
+              refresh: "expired-refresh-token",
+            }),
+            ...nonceCookies,
+          ],
+        })
+      )
+    );
+    expect(result.status).toBe("307");
+    expect(result.headers.location[0].value).toBe(
+      "https://www.example.com/page"
+    );
+    expect(setCookies(result)).toContainEqual(
+      expect.stringMatching(/\.user\.refreshToken=; .*Expires=Thu, 01 Jan 1970/)
+    );
+    expect(setCookies(result)).toContainEqual(
+      expect.stringMatching(/^spa-auth-edge-refresh=failed;/)
+    );
+  });
+
+  test("leave the session alone in session store mode, if a concurrent refresh rotated the refresh token", async () => {
+    const session = {
+      idToken: idToken({ exp: now - 10 }),
+      accessToken: accessToken(),
+      refreshToken: "superseded-refresh-token",
+    };
+    const tokenEndpoint = jest.fn(async () => {
+      // The concurrent refresh got to the token endpoint first, and stored the rotated refresh token in the session
+      Object.assign(session, {
+        idToken: idToken(),
+        refreshToken: "rotated-refresh-token",
+      });
+      return invalidGrant;
+    });
+    const fetch = withSessionStore(session, tokenEndpoint);
+    const handler = loadHandler(
+      "../refresh-auth",
+      { ...baseConfig, sessionStore },
+      fetch
+    );
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/refreshauth",
+          querystring: stringifyQueryString(query),
+          cookies: [
+            `spa-auth-edge-session-${clientId}=session-id`,
+            ...nonceCookies,
+          ],
+        })
+      )
+    );
+    expect(tokenEndpoint).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe("307");
+    expect(result.headers.location[0].value).toBe(
+      "https://www.example.com/page"
+    );
+    expect(setCookies(result)).toEqual([]);
+    expect(
+      fetch.mock.calls.map(([, , { headers }]) => headers["x-amz-target"])
+    ).not.toContainEqual(expect.stringMatching(/PutItem|DeleteItem/));
+  });
+
+  test("leave the cookies alone upon silent refresh in cookie mode", async () => {
+    const fetch = jest.fn().mockResolvedValue(invalidGrant);
+    const handler = loadHandler("../refresh-auth", baseConfig, fetch);
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          method: "POST",
+          uri: "/refreshauth",
+          headers: {
+            "x-requested-with": [
+              { key: "X-Requested-With", value: "XMLHttpRequest" },
+            ],
+          },
+          cookies: tokenCookies({
+            id: idToken(),
+            refresh: "superseded-refresh-token",
+          }),
+        })
+      )
+    );
+    expect(result.status).toBe("401");
+    expect(JSON.parse(result.body).error).toBe("login_required");
+    expect(setCookies(result)).toEqual([]);
+  });
+});
+
+describe("silent refresh", () => {
+  const fetch = jest.fn();
+  const handler = loadHandler("../refresh-auth", baseConfig, fetch);
+  const newIdToken = idToken();
+  const silentRefreshRequest = (headers: { [name: string]: string }) =>
+    requestEvent({
+      method: "POST",
+      uri: "/refreshauth",
+      headers: Object.fromEntries(
+        Object.entries(headers).map(([key, value]) => [
+          key.toLowerCase(),
+          [{ key, value }],
+        ])
+      ),
+      cookies: tokenCookies({ id: idToken(), refresh: "refresh-token" }),
+    });
+
+  beforeEach(() => {
+    fetch.mockReset();
+    fetch.mockResolvedValue({
+      status: 200,
+      headers: { "content-type": "application/json" },
+      data: Buffer.from(
+        JSON.stringify({ id_token: newIdToken, access_token: "access-token" })
+      ),
+    });
+  });
+
+  test("refreshes the tokens, and responds with their expiry", async () => {
+    const result = asResponse(
+      await handler(
+        silentRefreshRequest({
+          "X-Requested-With": "XMLHttpRequest",
+          Origin: "https://www.example.com",
+        })
+      )
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe("200");
+    expect(JSON.parse(result.body)).toEqual({
+      expiresAt: expect.stringMatching(/^\d{4}-\d\d-\d\dT/),
+    });
+    expect(
+      result.headers["set-cookie"].map(({ value }) => value)
+    ).toContainEqual(expect.stringContaining(`.user.idToken=${newIdToken};`));
+  });
+
+  test.each([
+    ["without X-Requested-With", { Origin: "https://www.example.com" }],
+    [
+      "from another origin",
+      {
+        "X-Requested-With": "XMLHttpRequest",
+        Origin: "https://evil.example.com",
+      },
+    ],
+  ])("rejects requests %s", async (_, headers) => {
+    const result = asResponse(await handler(silentRefreshRequest(headers)));
+    expect(fetch).not.toHaveBeenCalled();
+    expect(result.status).toBe("403");
+    expect(result.headers["set-cookie"]).toBeUndefined();
+  });
+});
@@ -5,68 +5,87 @@ import {
   parse as parseQueryString,
   stringify as stringifyQueryString,
 } from "querystring";
-import { CloudFrontRequestHandler } from "aws-lambda";
+import { CloudFrontRequest, CloudFrontRequestHandler } from "aws-lambda";
 import * as common from "../shared/shared";
 
-const CONFIG = common.getCompleteConfig();
-CONFIG.logger.debug("Configuration loaded:", CONFIG);
+const CONFIGS = common.getCompleteConfigProfiles();
+CONFIGS[0].logger.debug("Configuration loaded:", CONFIGS);
 
 export const handler: CloudFrontRequestHandler = async (event) => {
-  CONFIG.logger.debug("Event:", event);
   const request = event.Records[0].cf.request;
+  const config = common.selectConfigProfile(CONFIGS, request);
+  config.logger.debug("Event:", event);
   const domainName = request.headers["host"][0].value;
+  if (request.method === "POST") {
+    return silentRefresh(config, { request, domainName });
+  }
+  if (parseQueryString(request.querystring).signout) {
+    return revokeForSignOut(config, { request, domainName });
+  }
   let requestedUri: string | string[] | undefined = "/";
   let idToken: string | undefined = undefined;
+  let tokenUserName: string | undefined = undefined;
+  let sessionId: string | undefined = undefined;
+  let accessToken: string | undefined = undefined;
+  let refreshToken: string | undefined = undefined;
+  const querySting = parseQueryString(request.querystring);
 
   try {
-    const querySting = parseQueryString(request.querystring);
     requestedUri = querySting.requestedUri;
-    const cookies = common.extractAndParseCookies(
-      request.headers,
-      CONFIG.clientId,
-      CONFIG.cookieCompatibility
+    const cookies = await common.resolveSession(
+      config,
+      common.extractAndParseCookies(request.headers, config)
     );
-    idToken = cookies.idToken;
+    ({ idToken, accessToken, refreshToken, tokenUserName } = cookies);
+    if (config.sessions) {
+      sessionId = cookies.sessionId;
+    }
+
+    // If another (concurrent) request got here first, and already refreshed the tokens (or failed to),
+    // there's nothing left to do but to redirect the user back
+    if (cookies.refreshFailed || isFresh(config, cookies.idToken)) {
+      config.logger.info(
+        "Tokens were refreshed already, redirecting user back without refreshing"
+      );
+      const response = {
+        status: "307",
+        statusDescription: "Temporary Redirect",
+        headers: {
+          location: [
+            {
+              key: "location",
+              value: common.getValidRedirectUrl(config, {
+                requestedUri,
+                domainName,
+              }),
+            },
+          ],
+          ...config.cloudFrontHeaders,
+        },
+      };
+      config.logger.debug("Returning response:\n", JSON.stringify(response));
+      return response;
+    }
 
     validateRefreshRequest(
+      config,
       querySting.nonce,
+      querySting.nonceHmac,
       cookies.nonceHmac,
       cookies.nonce,
       cookies.idToken,
       cookies.refreshToken
     );
 
-    const headers: { "Content-Type": string; Authorization?: string } = {
-      "Content-Type": "application/x-www-form-urlencoded",
-    };
-
-    if (CONFIG.clientSecret) {
-      const encodedSecret = Buffer.from(
-        `${CONFIG.clientId}:${CONFIG.clientSecret}`
-      ).toString("base64");
-      headers["Authorization"] = `Basic ${encodedSecret}`;
-    }
-
-    let newIdToken: string | undefined;
-    let newAccessToken: string | undefined;
-    const body = stringifyQueryString({
-      grant_type: "refresh_token",
-      client_id: CONFIG.clientId,
-      refresh_token: cookies.refreshToken,
-    });
-    const res = await common
-      .httpPostToCognitoWithRetry(
-        `https://${CONFIG.cognitoAuthDomain}/oauth2/token`,
-        Buffer.from(body),
-        { headers },
-        CONFIG.logger
-      )
-      .catch((err) => {
-        throw new Error(`Failed to refresh tokens: ${err}`);
+    const tokens = await common.refreshTokens(config, cookies.refreshToken!);
+    if (config.sessions && sessionId) {
+      await config.sessions.put(sessionId, {
+        clientId: config.clientId,
+        idToken: tokens.id,
+        accessToken: tokens.access,
+        refreshToken: tokens.refresh ?? cookies.refreshToken,
       });
-    CONFIG.logger.info("Successfully renewed tokens");
-    newIdToken = res.data.id_token as string;
-    newAccessToken = res.data.access_token as string;
+    }
     const response = {
       status: "307",
       statusDescription: "Temporary Redirect",
@@ -74,33 +93,64 @@ export const handler: CloudFrontRequestHandler = async (event) => {
         location: [
           {
             key: "location",
-            value: `https://${domainName}${common.ensureValidRedirectPath(
-              requestedUri
-            )}`,
+            value: common.getValidRedirectUrl(config, {
+              requestedUri,
+              domainName,
+            }),
           },
         ],
         "set-cookie": common.generateCookieHeaders.refresh({
-          ...CONFIG,
-          tokens: { id: newIdToken, access: newAccessToken },
+          ...config,
+          tokens,
+          sessionId,
+          requestCookies: common.extractCookiesFromHeaders(request.headers),
         }),
-        ...CONFIG.cloudFrontHeaders,
+        ...config.cloudFrontHeaders,
       },
     };
-    CONFIG.logger.debug("Returning response:\n", JSON.stringify(response));
+    config.logger.debug("Returning response:\n", JSON.stringify(response));
     return response;
   } catch (err) {
     if (
       err instanceof Error &&
       err.message.includes("invalid_grant") &&
-      idToken
+      (idToken || config.cookieExpiryFromTokens)
     ) {
+      if (await getSupersedingSession(config, { sessionId, refreshToken })) {
+        config.logger.info(
+          "Refresh token was rotated by a concurrent refresh, redirecting user back without refreshing"
+        );
+        return redirectResponse(
+          config,
+          common.getValidRedirectUrl(config, { requestedUri, domainName })
+        );
+      }
+      if (!config.sessions && !querySting.retry) {
+        // In cookie mode, we can't tell whether a concurrent refresh rotated the refresh token: its response (with the new cookies)
+        // may not have reached the browser yet. So we have the browser come here once more, with the cookies it has by then
+        // (if the concurrent refresh succeeded, the tokens are fresh then, and the user is redirected back)
+        config.logger.info(
+          "Refresh token was rejected, retrying once, in case it was rotated by a concurrent refresh"
+        );
+        return redirectResponse(
+          config,
+          `https://${domainName}${
+            config.redirectPathAuthRefresh
+          }?${stringifyQueryString({ ...querySting, retry: "true" })}`
+        );
+      }
       // The refresh token has likely expired.
       // We'll clear the refresh token cookie, so that CheckAuth won't redirect any more requests here in vain.
       // Also, we'll redirect the user to where he/she came from.
       // (From there CheckAuth will redirect the user to the Cognito hosted UI to sign in)
-      CONFIG.logger.info(
+      config.logger.info(
         "Expiring refresh token cookie, as the refresh token has expired"
       );
+      await removeRefreshTokenFromSession(config, {
+        sessionId,
+        idToken,
+        accessToken,
+      });
       const response = {
         status: "307",
         statusDescription: "Temporary Redirect",
@@ -108,36 +158,40 @@ export const handler: CloudFrontRequestHandler = async (event) => {
           location: [
             {
               key: "location",
-              value: `https://${domainName}${common.ensureValidRedirectPath(
-                requestedUri
-              )}`,
+              value: common.getValidRedirectUrl(config, {
+                requestedUri,
+                domainName,
+              }),
             },
           ],
           "set-cookie": common.generateCookieHeaders.refreshFailed({
             tokens: {
               id: idToken,
             },
-            ...CONFIG,
+            tokenUserName,
+            sessionId,
+            requestCookies: common.extractCookiesFromHeaders(request.headers),
+            ...config,
           }),
-          ...CONFIG.cloudFrontHeaders,
+          ...config.cloudFrontHeaders,
         },
       };
-      CONFIG.logger.debug("Returning response:\n", JSON.stringify(response));
+      config.logger.debug("Returning response:\n", JSON.stringify(response));
       return response;
     }
-    CONFIG.logger.error(err);
+    config.logger.error(err);
     const response = {
       body: common.createErrorHtml({
         title: "Refresh issue",
         message: "We can't refresh your sign-in automatically because of a",
         expandText: "technical problem",
         details: `${err}`,
-        linkUri: `https://${domainName}${CONFIG.signOutUrl}`,
+        linkUri: `https://${domainName}${config.signOutUrl}`,
         linkText: "Sign in",
       }),
       status: "200",
       headers: {
-        ...CONFIG.cloudFrontHeaders,
+        ...config.cloudFrontHeaders,
         "content-type": [
           {
             key: "Content-Type",
@@ -146,13 +200,15 @@ export const handler: CloudFrontRequestHandler = async (event) => {
         ],
       },
     };
-    CONFIG.logger.debug("Returning response:\n", JSON.stringify(response));
+    config.logger.debug("Returning response:\n", JSON.stringify(response));
     return response;
   }
 };
 
 function validateRefreshRequest(
+  config: common.CompleteConfig,
   currentNonce?: string | string[],
+  currentNonceHmac?: string | string[],
   nonceHmac?: string,
   originalNonce?: string,
   idToken?: string,
@@ -164,19 +220,32 @@ function validateRefreshRequest(
     );
   }
   if (currentNonce !== originalNonce) {
-    throw new Error("Nonce mismatch");
+    // When many requests need a refresh at the same time (e.g. a page that loads many assets), each of these is redirected here
+    // with its own nonce, but only the last nonce is in the cookie. Therefore, recently superseded nonces are accepted too
+    if (
+      !isRecentlySupersededNonce(
+        config,
+        currentNonce,
+        currentNonceHmac,
+        originalNonce
+      )
+    ) {
+      throw new Error("Nonce mismatch");
+    }
+    config.logger.info(
+      "Accepting superseded nonce, as it is within the grace period"
+    );
   }
-  if (!idToken) {
+  // If cookie expiry is derived from the tokens, the ID token cookie may have expired already
+  if (!idToken && !config.cookieExpiryFromTokens) {
     throw new Error("Missing ID token");
   }
   if (!refreshToken) {
     throw new Error("Missing refresh token");
   }
   // Nonce should not be too old
-  const nonceTimestamp = parseInt(
-    currentNonce.slice(0, currentNonce.indexOf("T"))
-  );
-  if (common.timestampInSeconds() - nonceTimestamp > CONFIG.nonceMaxAge) {
+  const nonceTimestamp = common.getNonceTimestamp(originalNonce);
+  if (common.timestampInSeconds() - nonceTimestamp > config.nonceMaxAge) {
     throw new common.RequiresConfirmationError(
       `Nonce is too old (nonce is from ${new Date(
         nonceTimestamp * 1000
@@ -186,9 +255,9 @@ function validateRefreshRequest(
 
   // Nonce should have the right signature: proving we were the ones generating it (and e.g. not malicious JS on a subdomain)
   const calculatedHmac = common.sign(
-    currentNonce,
-    CONFIG.nonceSigningSecret,
-    CONFIG.nonceLength
+    originalNonce,
+    config.nonceSigningSecret,
+    config.nonceLength
   );
   if (calculatedHmac !== nonceHmac) {
     throw new common.RequiresConfirmationError(
@@ -196,3 +265,365 @@ function validateRefreshRequest(
     );
   }
 }
+
+/**
+ * The superseded nonce is in the query string only, so its signature (that's in the query string too) must be checked:
+ * otherwise anyone could make up a nonce with a recent timestamp
+ */
+function isRecentlySupersededNonce(
+  config: common.CompleteConfig,
+  nonce: string | string[] | undefined,
+  nonceHmac: string | string[] | undefined,
+  nonceFromCookie: string
+) {
+  if (typeof nonce !== "string") {
+    return false;
+  }
+  if (
+    nonceHmac !==
+    common.sign(nonce, config.nonceSigningSecret, config.nonceLength)
+  ) {
+    config.logger.securityEvent(
+      "Rejected superseded nonce: signature mismatch",
+      { nonce }
+    );
+    return false;
+  }
+  const nonceTimestamp = common.getNonceTimestamp(nonce);
+  return (
+    nonceTimestamp <= common.getNonceTimestamp(nonceFromCookie) &&
+    common.timestampInSeconds() - nonceTimestamp <=
+      config.refreshNonceGracePeriod
+  );
+}
+
+function isFresh(config: common.CompleteConfig, idToken?: string) {
+  if (!idToken) {
+    return false;
+  }
+  try {
+    return !common.isDueForRefresh(config, idToken);
+  } catch {
+    return false; // Not a JWT we can parse, so we'll refresh (and verify) it
+  }
+}
+
+/**
+ * In static site mode, the refresh token cookie is (by default) only sent to the refresh path. Therefore, upon sign-out,
+ * the sign-out function redirects the user here first, to have the refresh token revoked. Then, we redirect the user back
+ * to the sign-out path (with "revoked" in the query string, to not come here again), where the user is signed out as usual.
+ *
+ * The sign-out function puts a nonce in the query string ("signout"), and in the (signed) nonce cookies: we only revoke if these match,
+ * so that other sites can't have the refresh token revoked (CSRF). The sign-out function then expires the nonce cookies, so the nonce is used once only
+ */
+async function revokeForSignOut(
+  config: common.CompleteConfig,
+  { request, domainName }: { request: CloudFrontRequest; domainName: string }
+) {
+  const { signout, ...querystring } = parseQueryString(request.querystring);
+  try {
+    const cookies = await common.resolveSession(
+      config,
+      common.extractAndParseCookies(request.headers, config)
+    );
+    if (!isSignOutNonceValid(config, signout, cookies)) {
+      config.logger.securityEvent(
+        "Rejected revocation for sign-out: possible CSRF",
+        { nonce: signout, domainName }
+      );
+    } else if (cookies.refreshToken) {
+      await common.revokeRefreshToken(config, cookies.refreshToken);
+    } else {
+      config.logger.info("No refresh token in cookies, skipping revocation");
+    }
+  } catch (err) {
+    // Don't let this stand in the way of signing out: the cookies will be expired nevertheless
+    config.logger.error(err);
+  }
+  const response = {
+    status: "307",
+    statusDescription: "Temporary Redirect",
+    headers: {
+      location: [
+        {
+          key: "location",
+          value: `https://${domainName}${
+            config.signOutUrl
+          }?${stringifyQueryString({ ...querystring, revoked: "true" })}`,
+        },
+      ],
+      ...config.cloudFrontHeaders,
+    },
+  };
+  config.logger.debug("Returning response:\n", JSON.stringify(response));
+  return response;
+}
+
+function isSignOutNonceValid(
+  config: common.CompleteConfig,
+  nonce: string | string[] | undefined,
+  cookies: { nonce?: string; nonceHmac?: string }
+) {
+  return (
+    typeof nonce === "string" &&
+    nonce === cookies.nonce &&
+    cookies.nonceHmac ===
+      common.sign(nonce, config.nonceSigningSecret, config.nonceLength) &&
+    common.timestampInSeconds() - common.getNonceTimestamp(nonce) <=
+      config.nonceMaxAge
+  );
+}
+
+/**
+ * Silent refresh, for SPAs that can't refresh the tokens themselves, because the token cookies are HttpOnly (static site mode).
+ * The SPA can POST to the refresh path (e.g. from a timer), to have the tokens refreshed without a redirect:
+ * the new cookies are set, and the response is JSON with the new expiry of the ID token, e.g. {"expiresAt": "2026-01-01T00:00:00.000Z"}
+ *
+ * To protect against CSRF, the request must have header "X-Requested-With: XMLHttpRequest" (cross-site requests can only have
+ * that header after a CORS preflight, which we don't allow) and, if the browser sends an Origin header, that must be our own origin
+ */
+async function silentRefresh(
+  config: common.CompleteConfig,
+  { request, domainName }: { request: CloudFrontRequest; domainName: string }
+) {
+  const origin = request.headers["origin"]?.[0]?.value;
+  if (
+    request.headers["x-requested-with"]?.[0]?.value !== "XMLHttpRequest" ||
+    (origin && origin !== `https://${domainName}`)
+  ) {
+    config.logger.securityEvent("Rejected silent refresh: possible CSRF", {
+      origin,
+      domainName,
+    });
+    return jsonResponse(config, {
+      status: "403",
+      statusDescription: "Forbidden",
+      body: {
+        error: "invalid_request",
+        error_description:
+          "Header X-Requested-With: XMLHttpRequest is required, and the request must come from the same origin",
+      },
+    });
+  }
+
+  let cookies: ReturnType<typeof common["extractAndParseCookies"]> = {};
+  try {
+    cookies = await common.resolveSession(
+      config,
+      common.extractAndParseCookies(request.headers, config)
+    );
+    if (!cookies.refreshToken) {
+      return jsonResponse(config, {
+        status: "401",
+        statusDescription: "Unauthorized",
+        body: {
+          error: "login_required",
+          error_description: "Missing refresh token",
+        },
+      });
+    }
+    const sessionId = config.sessions ? cookies.sessionId : undefined;
+    const tokens = await common.refreshTokens(config, cookies.refreshToken);
+    if (config.sessions && sessionId) {
+      await config.sessions.put(sessionId, {
+        clientId: config.clientId,
+        idToken: tokens.id,
+        accessToken: tokens.access,
+        refreshToken: tokens.refresh ?? cookies.refreshToken,
+      });
+    }
+    return jsonResponse(config, {
+      status: "200",
+      statusDescription: "OK",
+      body: { expiresAt: common.getTokenExpiry(tokens.id).toISOString() },
+      setCookies: common.generateCookieHeaders.refresh({
+        ...config,
+        tokens,
+        sessionId,
+        requestCookies: common.extractCookiesFromHeaders(request.headers),
+      }),
+    });
+  } catch (err) {
+    if (err instanceof Error && err.message.includes("invalid_grant")) {
+      const sessionId = config.sessions ? cookies.sessionId : undefined;
+      const supersedingSession = await getSupersedingSession(config, {
+        sessionId,
+        refreshToken: cookies.refreshToken,
+      });
+      if (supersedingSession) {
+        config.logger.info(
+          "Refresh token was rotated by a concurrent refresh, responding with the new expiry"
+        );
+        return jsonResponse(config, {
+          status: "200",
+          statusDescription: "OK",
+          body: {
+            expiresAt: common
+              .getTokenExpiry(supersedingSession.idToken)
+              .toISOString(),
+          },
+        });
+      }
+      if (!sessionId) {
+        // In cookie mode, we can't tell whether a concurrent refresh (e.g. in another browser tab) rotated the refresh token,
+        // so we leave the cookies alone: expiring these might clobber the new ones. If the refresh token has expired indeed,
+        // the regular refresh expires its cookie, once the ID token has expired too
+        config.logger.info("Refresh token was rejected");
+        return jsonResponse(config, {
+          status: "401",
+          statusDescription: "Unauthorized",
+          body: {
+            error: "login_required",
+            error_description: "The refresh token was rejected",
+          },
+        });
+      }
+      // The refresh token has likely expired, so the user needs to sign in again.
+      // As in the regular refresh, we mark the refresh as failed, so that CheckAuth won't redirect requests to the refresh path in vain
+      config.logger.info(
+        "Removing refresh token from session, as the refresh token has expired"
+      );
+      await removeRefreshTokenFromSession(config, {
+        sessionId,
+        idToken: cookies.idToken,
+        accessToken: cookies.accessToken,
+      });
+      return jsonResponse(config, {
+        status: "401",
+        statusDescription: "Unauthorized",
+        body: {
+          error: "login_required",
+          error_description: "The refresh token has expired",
+        },
+        setCookies: common.generateCookieHeaders.refreshFailed({
+          tokens: {
+            id: cookies.idToken,
+          },
+          tokenUserName: cookies.tokenUserName,
+          sessionId,
+          requestCookies: common.extractCookiesFromHeaders(request.headers),
+          ...config,
+        }),
+      });
+    }
+    config.logger.error(err);
+    return jsonResponse(config, {
+      status: "500",
+      statusDescription: "Internal Server Error",
+      body: { error: "server_error", error_description: `${err}` },
+    });
+  }
+}
+
+function redirectResponse(config: common.CompleteConfig, location: string) {
+  const response = {
+    status: "307",
+    statusDescription: "Temporary Redirect",
+    headers: {
+      location: [
+        {
+          key: "location",
+          value: location,
+        },
+      ],
+      ...config.cloudFrontHeaders,
+    },
+  };
+  config.logger.debug("Returning response:\n", JSON.stringify(response));
+  return response;
+}
+
+function jsonResponse(
+  config: common.CompleteConfig,
+  {
+    status,
+    statusDescription,
+    body,
+    setCookies,
+  }: {
+    status: string;
+    statusDescription: string;
+    body: { [key: string]: string };
+    setCookies?: { key: string; value: string }[];
+  }
+) {
+  const response = {
+    body: JSON.stringify(body),
+    status,
+    statusDescription,
+    headers: {
+      ...config.cloudFrontHeaders,
+      ...(setCookies && { "set-cookie": setCookies }),
+      "content-type": [
+        {
+          key: "Content-Type",
+          value: "application/json",
+        },
+      ],
+      "cache-control": [
+        {
+          key: "Cache-Control",
+          value: "no-store",
+        },
+      ],
+    },
+  };
+  config.logger.debug("Returning response:\n", JSON.stringify(response));
+  return response;
+}
+
+/**
+ * With refresh token rotation, concurrent refreshes race: the first to reach the token endpoint rotates the refresh token,
+ * and the others then get "invalid_grant" for the old one. That doesn't mean that the user's refresh token has expired:
+ * in session store mode, the session then holds a newer refresh token (and the tokens that came with it)
+ */
+async function getSupersedingSession(
+  config: common.CompleteConfig,
+  { sessionId, refreshToken }: { sessionId?: string; refreshToken?: string }
+) {
+  if (!config.sessions || !sessionId) {
+    return undefined;
+  }
+  const session = await config.sessions.get(sessionId).catch((err) => {
+    config.logger.error("Failed to read session:", err);
+    return undefined;
+  });
+  if (
+    session?.clientId === config.clientId &&
+    session.refreshToken &&
+    session.refreshToken !== refreshToken
+  ) {
+    return session;
+  }
+  return undefined;
+}
+
+/**
+ * In session store mode there's no refresh token cookie to expire: instead, we remove the refresh token from the session
+ */
+async function removeRefreshTokenFromSession(
+  config: common.CompleteConfig,
+  {
+    sessionId,
+    idToken,
+    accessToken,
+  }: { sessionId?: string; idToken?: string; accessToken?: string }
+) {
+  if (!config.sessions || !sessionId) {
+    return;
+  }
+  if (!idToken || !accessToken) {
+    // Without the refresh token, the session would be of no use anymore
+    await config.sessions
+      .delete(sessionId)
+      .catch((err) => config.logger.error("Failed to delete session:", err));
+    return;
+  }
+  await config.sessions
+    .put(sessionId, {
+      clientId: config.clientId,
+      idToken,
+      accessToken,
+    })
+    .catch((err) => config.logger.error("Failed to update session:", err));
+}
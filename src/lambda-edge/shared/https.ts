@@ -2,7 +2,8 @@
 // SPDX-License-Identifier: MIT-0
 
 import { IncomingHttpHeaders } from "http";
-import { request, RequestOptions } from "https";
+import { request as httpRequest } from "http";
+import { request as httpsRequest, RequestOptions } from "https";
 import { Writable, pipeline } from "stream";
 
 const DEFAULT_REQUEST_TIMEOUT = 4000; // 4 seconds
@@ -23,6 +24,8 @@ export async function fetch(
       ...(options ?? {}),
     };
 
+    // Plain HTTP is only meant for local testing, e.g. against DynamoDB Local
+    const request = uri.startsWith("http:") ? httpRequest : httpsRequest;
     const req = request(uri, requestOptions, (res) =>
       pipeline(
         [
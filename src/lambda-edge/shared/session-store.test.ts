@@ -0,0 +1,147 @@
+// Copyright 2026 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import AWS from "aws-sdk";
+import DynamoDB from "aws-sdk/clients/dynamodb";
+import { DynamoDbSessionStore, signRequest } from "./session-store";
+
+const credentials = {
+  accessKeyId: "AKIDEXAMPLE",
+  secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+  sessionToken: "session-token",
+};
+
+describe("signRequest", () => {
+  test("signs requests like the AWS SDK does", () => {
+    const date = new Date("2026-01-02T03:04:05.678Z");
+    const body = Buffer.from(JSON.stringify({ TableName: "sessions" }));
+    const headers = { "x-amz-target": "DynamoDB_20120810.GetItem" };
+    const signed = signRequest({
+      url: "https://dynamodb.eu-west-1.amazonaws.com",
+      headers,
+      body,
+      region: "eu-west-1",
+      service: "dynamodb",
+      credentials,
+      date,
+    });
+
+    const request = new AWS.HttpRequest(
+      new AWS.Endpoint("https://dynamodb.eu-west-1.amazonaws.com"),
+      "eu-west-1"
+    );
+    request.method = "POST";
+    request.path = "/";
+    request.body = body.toString();
+    request.headers = {
+      ...headers,
+      "content-type": "application/x-amz-json-1.0", // Not signed by the AWS SDK
+      host: request.endpoint.host,
+    };
+    const signer = new (AWS as any).Signers.V4(request, "dynamodb");
+    signer.addAuthorization(new AWS.Credentials(credentials), date);
+
+    expect(signed.authorization).toEqual(request.headers["Authorization"]);
+    expect(signed["x-amz-date"]).toEqual("20260102T030405Z");
+    expect(signed["x-amz-security-token"]).toEqual("session-token");
+  });
+});
+
+// Runs against DynamoDB Local if its endpoint is provided, e.g.:
+// docker run -p 8000:8000 amazon/dynamodb-local
+// DYNAMODB_LOCAL_ENDPOINT=http://localhost:8000 npm test
+// Otherwise against Dynalite (an implementation of the DynamoDB API), in process
+describe("DynamoDbSessionStore", () => {
+  const tableName = `sessions-${Date.now()}`;
+  const region = "us-east-1";
+  const session = {
+    clientId: "client",
+    idToken: "id-token",
+    accessToken: "access-token",
+    refreshToken: "refresh-token",
+  };
+  let dynaliteServer: any;
+  let endpoint: string;
+  let dynamodb: DynamoDB;
+  let store: DynamoDbSessionStore;
+
+  beforeAll(async () => {
+    endpoint = process.env.DYNAMODB_LOCAL_ENDPOINT!;
+    if (!endpoint) {
+      const dynalite = require("dynalite");
+      dynaliteServer = dynalite({ createTableMs: 0, deleteTableMs: 0 });
+      await new Promise((resolve) => dynaliteServer.listen(0, resolve));
+      endpoint = `http://localhost:${dynaliteServer.address().port}`;
+    }
+    dynamodb = new DynamoDB({ endpoint, region, credentials });
+    store = new DynamoDbSessionStore(
+      { tableName, region, endpoint },
+      () => credentials
+    );
+    await dynamodb
+      .createTable({
+        TableName: tableName,
+        KeySchema: [{ AttributeName: "sessionIdHash", KeyType: "HASH" }],
+        AttributeDefinitions: [
+          { AttributeName: "sessionIdHash", AttributeType: "S" },
+        ],
+        BillingMode: "PAY_PER_REQUEST",
+      })
+      .promise();
+    await dynamodb.waitFor("tableExists", { TableName: tableName }).promise();
+  });
+
+  afterAll(async () => {
+    await dynamodb.deleteTable({ TableName: tableName }).promise();
+    await new Promise(
+      (resolve) => dynaliteServer?.close(resolve) ?? resolve(undefined)
+    );
+  });
+
+  test("stores, retrieves and deletes sessions", async () => {
+    await store.put("session-1", session);
+    expect(await store.get("session-1")).toEqual(session);
+    await store.delete("session-1");
+    expect(await store.get("session-1")).toBeUndefined();
+  });
+
+  test("stores sessions without refresh token", async () => {
+    const { refreshToken, ...withoutRefreshToken } = session;
+    await store.put("session-2", withoutRefreshToken);
+    expect(await store.get("session-2")).toEqual({
+      ...withoutRefreshToken,
+      refreshToken: undefined,
+    });
+  });
+
+  test("doesn't store the session ID itself", async () => {
+    await store.put("session-3", session);
+    const { Items: items = [] } = await dynamodb
+      .scan({ TableName: tableName })
+      .promise();
+    expect(JSON.stringify(items)).not.toContain("session-3");
+  });
+
+  test("doesn't return expired sessions", async () => {
+    const expiredStore = new DynamoDbSessionStore(
+      { tableName, region, endpoint, maxAge: -1 },
+      () => credentials
+    );
+    await expiredStore.put("session-4", session);
+    expect(await store.get("session-4")).toBeUndefined();
+  });
+
+  test("returns undefined for unknown sessions", async () => {
+    expect(await store.get("unknown")).toBeUndefined();
+  });
+
+  test("throws upon errors", async () => {
+    const otherStore = new DynamoDbSessionStore(
+      { tableName: "does-not-exist", region, endpoint },
+      () => credentials
+    );
+    await expect(otherStore.get("session-1")).rejects.toThrow(
+      "DynamoDB GetItem failed with status 400"
+    );
+  });
+});
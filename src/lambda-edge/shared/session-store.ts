@@ -0,0 +1,227 @@
+// Copyright 2026 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { createHash, createHmac, randomBytes } from "crypto";
+import { Agent } from "https";
+import { fetch } from "./https";
+
+export interface SessionStoreSettings {
+  tableName: string;
+  region: string;
+  endpoint?: string; // E.g. "http://localhost:8000" to use DynamoDB Local
+  maxAge?: number; // In seconds
+}
+
+export interface Session {
+  clientId: string;
+  idToken: string;
+  accessToken: string;
+  refreshToken?: string;
+}
+
+/**
+ * Server-side storage of the user's tokens. The browser only gets an opaque session ID (in a cookie),
+ * that is used to look up the tokens in the session store.
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<Session | undefined>;
+  put(sessionId: string, session: Session): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+}
+
+export function generateSessionId() {
+  return randomBytes(32).toString("base64url");
+}
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+const AGENT = new Agent({ keepAlive: true });
+
+/**
+ * Session store backed by a DynamoDB table, with partition key "sessionIdHash" (string) and TTL attribute "expiresAt".
+ *
+ * Sessions are stored by the SHA-256 hash of the session ID, so that the session IDs
+ * (with which the sessions can be used) can't be derived from the table's contents.
+ *
+ * The DynamoDB API is called directly (instead of through the AWS SDK), to keep the Lambda@Edge functions small.
+ * By default, the credentials of the Lambda function (from the environment) are used.
+ */
+export class DynamoDbSessionStore implements SessionStore {
+  private endpoint: string;
+  private tableName: string;
+  private region: string;
+  private maxAge: number;
+  private credentials: () => AwsCredentials;
+
+  constructor(
+    settings: SessionStoreSettings,
+    credentials: () => AwsCredentials = credentialsFromEnvironment
+  ) {
+    this.endpoint =
+      settings.endpoint ?? `https://dynamodb.${settings.region}.amazonaws.com`;
+    this.tableName = settings.tableName;
+    this.region = settings.region;
+    this.maxAge = settings.maxAge ?? 60 * 60 * 24 * 30;
+    this.credentials = credentials;
+  }
+
+  async get(sessionId: string) {
+    const { Item: item } = await this.call("GetItem", {
+      TableName: this.tableName,
+      Key: { sessionIdHash: { S: hashSessionId(sessionId) } },
+      ConsistentRead: true,
+    });
+    // DynamoDB deletes expired items eventually (not immediately), so we check the expiry ourselves too
+    if (!item || Number(item.expiresAt.N) < Date.now() / 1000) {
+      return undefined;
+    }
+    return {
+      clientId: item.clientId.S,
+      idToken: item.idToken.S,
+      accessToken: item.accessToken.S,
+      refreshToken: item.refreshToken?.S,
+    } as Session;
+  }
+
+  async put(sessionId: string, session: Session) {
+    await this.call("PutItem", {
+      TableName: this.tableName,
+      Item: {
+        sessionIdHash: { S: hashSessionId(sessionId) },
+        clientId: { S: session.clientId },
+        idToken: { S: session.idToken },
+        accessToken: { S: session.accessToken },
+        ...(session.refreshToken && {
+          refreshToken: { S: session.refreshToken },
+        }),
+        expiresAt: { N: `${Math.floor(Date.now() / 1000) + this.maxAge}` },
+      },
+    });
+  }
+
+  async delete(sessionId: string) {
+    await this.call("DeleteItem", {
+      TableName: this.tableName,
+      Key: { sessionIdHash: { S: hashSessionId(sessionId) } },
+    });
+  }
+
+  private async call(action: string, payload: object) {
+    const body = Buffer.from(JSON.stringify(payload));
+    const headers = {
+      "content-type": "application/x-amz-json-1.0",
+      ...signRequest({
+        url: this.endpoint,
+        headers: { "x-amz-target": `DynamoDB_20120810.${action}` },
+        body,
+        region: this.region,
+        service: "dynamodb",
+        credentials: this.credentials(),
+      }),
+    };
+    const res = await fetch(this.endpoint, body, {
+      method: "POST",
+      headers,
+      agent: this.endpoint.startsWith("https:") ? AGENT : undefined,
+    });
+    const data = res.data.length ? JSON.parse(res.data.toString()) : {};
+    if (res.status !== 200) {
+      throw new Error(
+        `DynamoDB ${action} failed with status ${res.status}: ${
+          data.__type ?? ""
+        } ${data.message ?? data.Message ?? ""}`.trim()
+      );
+    }
+    return data;
+  }
+}
+
+function hashSessionId(sessionId: string) {
+  return createHash("sha256").update(sessionId).digest("base64url");
+}
+
+function credentialsFromEnvironment(): AwsCredentials {
+  return {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+    sessionToken: process.env.AWS_SESSION_TOKEN,
+  };
+}
+
+/**
+ * Sign a POST request (without query string) with AWS Signature Version 4
+ * @returns The headers to send, i.e. the given headers plus host, x-amz-date, x-amz-security-token (if any) and authorization
+ */
+export function signRequest({
+  url,
+  headers,
+  body,
+  region,
+  service,
+  credentials,
+  date = new Date(),
+}: {
+  url: string;
+  headers: { [name: string]: string };
+  body: Buffer;
+  region: string;
+  service: string;
+  credentials: AwsCredentials;
+  date?: Date;
+}): { [name: string]: string } {
+  const { host, pathname } = new URL(url);
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const headersToSign: { [name: string]: string } = {
+    ...Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name.toLowerCase(),
+        value.trim(),
+      ])
+    ),
+    host,
+    "x-amz-date": amzDate,
+    ...(credentials.sessionToken && {
+      "x-amz-security-token": credentials.sessionToken,
+    }),
+  };
+  const names = Object.keys(headersToSign).sort();
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [
+    "POST",
+    pathname || "/",
+    "",
+    ...names.map((name) => `${name}:${headersToSign[name]}`),
+    "",
+    signedHeaders,
+    sha256Hex(body),
+  ].join("\n");
+  const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    credentialScope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+  const signingKey = [dateStamp, region, service, "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    Buffer.from(`AWS4${credentials.secretAccessKey}`)
+  );
+  const signature = hmac(signingKey, stringToSign).toString("hex");
+  return {
+    ...headersToSign,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+function sha256Hex(data: string | Buffer) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer, data: string) {
+  return createHmac("sha256", key).update(data).digest();
+}
@@ -0,0 +1,557 @@
+// Copyright 2026 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import {
+  assertClaimConditions,
+  chunkCookies,
+  ClaimConditionError,
+  CompiledAccessRule,
+  decryptTokenCookie,
+  encryptTokenCookie,
+  extractAndParseCookies,
+  extractCookiesFromHeaders,
+  findAccessRule,
+  generateCookieHeaders,
+  getValidRedirectUrl,
+  globToRegExp,
+  Logger,
+  normalizeUri,
+} from "./shared";
+import { accessToken, clientId, idToken } from "./test-helpers";
+
+describe("globToRegExp", () => {
+  test.each([
+    ["/reports/**", "/reports/a.pdf", true],
+    ["/reports/**", "/reports/2024/q1/a.pdf", true],
+    ["/reports/**", "/reportsx/a.pdf", false],
+    ["/reports/**/*.pdf", "/reports/a.pdf", true],
+    ["/reports/**/*.pdf", "/reports/2024/q1/a.pdf", true],
+    ["/reports/**/*.pdf", "/reports/2024/a.docx", false],
+    ["/admin/*", "/admin/a", true],
+    ["/admin/*", "/admin/a/b", false],
+    ["/file?.txt", "/file1.txt", true],
+    ["/file?.txt", "/file/.txt", false],
+    ["/a.b", "/a.b", true],
+    ["/a.b", "/axb", false],
+    ["/(x)+", "/(x)+", true],
+  ])("%s matches %s: %s", (glob, uri, matches) => {
+    expect(globToRegExp(glob).test(uri)).toBe(matches);
+  });
+});
+
+describe("normalizeUri", () => {
+  test.each([
+    ["/a/b", "/a/b"],
+    ["/", "/"],
+    ["/public/../admin/x", "/admin/x"],
+    ["/public/./x", "/public/x"],
+    ["/public/..", "/"],
+    ["/public/.", "/public/"],
+    ["/../../admin", "/admin"],
+    ["/public/%2e%2e/admin", "/admin"],
+    ["/public/%2E%2E/admin", "/admin"],
+    ["/public/..%2fadmin", "/admin"],
+    ["/public/..%2Fadmin", "/admin"],
+    ["/public/..%5cadmin", "/admin"],
+    ["/public\\..\\admin", "/admin"],
+    ["/public//../admin", "/admin"],
+    ["/%61dmin", "/admin"],
+    ["/a%20b", "/a%20b"],
+    ["/a%252e%252e/b", "/a%252e%252e/b"],
+  ])("%s is normalized to %s", (uri, normalized) => {
+    expect(normalizeUri(uri)).toBe(normalized);
+  });
+});
+
+describe("findAccessRule", () => {
+  const rules = [
+    { path: "/public/**", access: "public" },
+    { path: "/admin/**", access: "groups", groups: ["admins"] },
+  ].map((rule) => ({
+    ...rule,
+    pathRegExp: globToRegExp(rule.path),
+  })) as CompiledAccessRule[];
+
+  test("finds the first rule that matches", () => {
+    expect(findAccessRule(rules, "/public/a.png")?.access).toBe("public");
+    expect(findAccessRule(rules, "/admin/a.png")?.access).toBe("groups");
+    expect(findAccessRule(rules, "/other")).toBeUndefined();
+  });
+
+  test.each([
+    "/public/../admin/x",
+    "/public/%2e%2e/admin/x",
+    "/public/..%2Fadmin/x",
+    "/public/..%5Cadmin/x",
+    "/public//../admin/x",
+  ])("doesn't treat %s as public path", (uri) => {
+    expect(findAccessRule(rules, uri)?.access).toBe("groups");
+  });
+});
+
+describe("assertClaimConditions", () => {
+  const payload = {
+    email: "User@Example.com",
+    email_verified: true,
+    "custom:tier": "gold",
+    "cognito:groups": ["admins", "editors"],
+  };
+
+  test.each([
+    { claim: "email_verified", equals: true },
+    { claim: "custom:tier", equals: "gold" },
+    { claim: "cognito:groups", anyOf: ["viewers", "editors"] },
+    { claim: "cognito:groups", allOf: ["admins", "editors"] },
+    { claim: "custom:tier", anyOf: ["gold", "silver"] },
+    { claim: "email", endsWith: "@example.COM" },
+  ])("%p is met", (condition) => {
+    expect(() => assertClaimConditions(payload, [condition])).not.toThrow();
+  });
+
+  test.each([
+    [{ claim: "email_verified", equals: "true" }, 'should equal "true"'],
+    [{ claim: "cognito:groups", anyOf: ["viewers"] }, "should include any of"],
+    [
+      { claim: "cognito:groups", allOf: ["admins", "viewers"] },
+      "should include all of",
+    ],
+    [{ claim: "email", endsWith: ".example.com" }, "should end with"],
+    [{ claim: "missing", anyOf: ["x"] }, 'claim "missing"'],
+  ])("%p is not met", (condition, reason) => {
+    expect(() => assertClaimConditions(payload, [condition])).toThrow(
+      ClaimConditionError
+    );
+    expect(() => assertClaimConditions(payload, [condition])).toThrow(reason);
+  });
+
+  test("all conditions must be met", () => {
+    expect(() =>
+      assertClaimConditions(payload, [
+        { claim: "email_verified", equals: true },
+        { claim: "custom:tier", equals: "silver" },
+      ])
+    ).toThrow('claim "custom:tier" should equal "silver"');
+  });
+});
+
+describe("chunkCookies", () => {
+  const settings = "Path=/; Secure; HttpOnly; SameSite=Lax";
+  const toHeaders = (cookies: { [name: string]: string }) => ({
+    cookie: [
+      {
+        key: "Cookie",
+        value: Object.entries(cookies)
+          .map(([name, value]) => `${name}=${value.split(";")[0]}`)
+          .join("; "),
+      },
+    ],
+  });
+
+  test("doesn't split cookies that fit", () => {
+    const cookies = { small: `value; ${settings}` };
+    expect(chunkCookies(cookies, {}, { chunkSize: 100 })).toEqual(cookies);
+  });
+
+  test("counts the name and settings towards the chunk size", () => {
+    const value = "x".repeat(60);
+    const chunked = chunkCookies(
+      { "ID-TOKEN": `${value}; ${settings}` },
+      {},
+      { chunkSize: 100 }
+    );
+    expect(Object.keys(chunked)).toEqual(["ID-TOKEN.0", "ID-TOKEN.1"]);
+    Object.entries(chunked).forEach(([name, valueAndSettings]) =>
+      expect(`${name}=${valueAndSettings}`.length).toBeLessThanOrEqual(100)
+    );
+    expect(extractCookiesFromHeaders(toHeaders(chunked))["ID-TOKEN"]).toBe(
+      value
+    );
+  });
+
+  test("doesn't split percent-encoded characters", () => {
+    const value = encodeURIComponent(JSON.stringify({ a: "{}".repeat(100) }));
+    const chunked = chunkCookies(
+      { userData: `${value}; ${settings}` },
+      {},
+      { chunkSize: 100 }
+    );
+    expect(Object.keys(chunked).length).toBeGreaterThan(2);
+    Object.entries(chunked).forEach(([name, valueAndSettings]) => {
+      expect(`${name}=${valueAndSettings}`.length).toBeLessThanOrEqual(100);
+      expect(() =>
+        decodeURIComponent(valueAndSettings.split(";")[0])
+      ).not.toThrow();
+    });
+    expect(extractCookiesFromHeaders(toHeaders(chunked))["userData"]).toBe(
+      decodeURIComponent(value)
+    );
+  });
+
+  test("expires chunks that aren't needed anymore", () => {
+    const chunked = chunkCookies(
+      { "ID-TOKEN": `small; ${settings}` },
+      { "ID-TOKEN": "large", "ID-TOKEN.0": "lar", "ID-TOKEN.1": "ge" },
+      { chunkSize: 100 }
+    );
+    expect(chunked["ID-TOKEN"]).toBe(`small; ${settings}`);
+    expect(chunked["ID-TOKEN.0"]).toMatch(/^; .*Expires=Thu, 01 Jan 1970/);
+    expect(chunked["ID-TOKEN.1"]).toMatch(/^; .*Expires=Thu, 01 Jan 1970/);
+  });
+
+  test("doesn't split cookies that Amplify reads, but warns", () => {
+    const logger: jest.Mocked<Pick<Logger, "warn">> = { warn: jest.fn() };
+    const cookies = {
+      "CognitoIdentityServiceProvider.client.user.idToken": `${"x".repeat(
+        300
+      )}; Path=/; Secure; SameSite=Lax`,
+      "CognitoIdentityServiceProvider.client.user.refreshToken": `${"x".repeat(
+        300
+      )}; Path=/; Secure; HttpOnly; SameSite=Lax`,
+    };
+    const chunked = chunkCookies(
+      cookies,
+      {},
+      {
+        chunkSize: 150,
+        cookieCompatibility: "amplify",
+        logger,
+      }
+    );
+    expect(
+      chunked["CognitoIdentityServiceProvider.client.user.idToken"]
+    ).toBeDefined();
+    expect(
+      chunked["CognitoIdentityServiceProvider.client.user.refreshToken.0"]
+    ).toBeDefined();
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("encryptTokenCookie and decryptTokenCookie", () => {
+  const secret = "cookie-encryption-secret";
+  const token = "header.payload.signature";
+
+  test("decrypt what was encrypted", () => {
+    const encrypted = encryptTokenCookie(secret, "id", token);
+    expect(encrypted).toMatch(/^enc1\./);
+    expect(encrypted).not.toContain(token);
+    expect(decryptTokenCookie(secret, "id", encrypted)).toBe(token);
+  });
+
+  test("use a new IV each time", () => {
+    expect(encryptTokenCookie(secret, "id", token)).not.toBe(
+      encryptTokenCookie(secret, "id", token)
+    );
+  });
+
+  test("leave tokens as is without secret", () => {
+    expect(encryptTokenCookie(undefined, "id", token)).toBe(token);
+    expect(decryptTokenCookie(undefined, "id", token)).toBe(token);
+  });
+
+  test("ignore cookies that aren't encrypted", () => {
+    expect(decryptTokenCookie(secret, "id", token)).toBeUndefined();
+  });
+
+  test("ignore cookies that were encrypted with another secret", () => {
+    const encrypted = encryptTokenCookie("other-secret", "id", token);
+    expect(decryptTokenCookie(secret, "id", encrypted)).toBeUndefined();
+  });
+
+  test("ignore cookies that were encrypted for another type of token", () => {
+    const encrypted = encryptTokenCookie(secret, "refresh", token);
+    expect(decryptTokenCookie(secret, "id", encrypted)).toBeUndefined();
+  });
+
+  test("ignore cookies that were tampered with", () => {
+    const [iv, encrypted, authTag] = encryptTokenCookie(secret, "id", token)
+      .slice("enc1.".length)
+      .split(".");
+    const flipped = Buffer.from(encrypted, "base64url");
+    flipped[0] ^= 1;
+    expect(
+      decryptTokenCookie(
+        secret,
+        "id",
+        `enc1.${iv}.${flipped.toString("base64url")}.${authTag}`
+      )
+    ).toBeUndefined();
+    expect(
+      decryptTokenCookie(secret, "id", `enc1.${iv}.${encrypted}.`)
+    ).toBeUndefined();
+    expect(decryptTokenCookie(secret, "id", `enc1.${iv}`)).toBeUndefined();
+  });
+});
+
+describe("getValidRedirectUrl", () => {
+  const logger: jest.Mocked<Pick<Logger, "securityEvent">> = {
+    securityEvent: jest.fn(),
+  };
+  const config = {
+    allowedRedirectHosts: ["app.example.com"],
+    logger,
+  };
+  const domainName = "www.example.com";
+
+  beforeEach(() => logger.securityEvent.mockReset());
+
+  test.each([
+    ["/path?query=1", "https://www.example.com/path?query=1"],
+    ["https://www.example.com/path", "https://www.example.com/path"],
+    ["https://app.example.com/path", "https://app.example.com/path"],
+  ])("accepts %s", (requestedUri, expected) => {
+    expect(getValidRedirectUrl(config, { requestedUri, domainName })).toBe(
+      expected
+    );
+    expect(logger.securityEvent).not.toHaveBeenCalled();
+  });
+
+  test.each([
+    "https://evil.example.com/",
+    "//evil.example.com/",
+    "/\\evil.example.com/",
+    "http://app.example.com/",
+    "https://www.example.com.evil.com/",
+    "https://www.example.com@evil.com/",
+    "javascript:alert(1)",
+    "https://app.example.com:8443/",
+  ])("rejects %s", (requestedUri) => {
+    expect(getValidRedirectUrl(config, { requestedUri, domainName })).toBe(
+      "https://www.example.com/"
+    );
+    expect(logger.securityEvent).toHaveBeenCalled();
+  });
+
+  test.each([undefined, ["/a", "/b"]])(
+    "falls back to the root for %p",
+    (requestedUri) => {
+      expect(getValidRedirectUrl(config, { requestedUri, domainName })).toBe(
+        "https://www.example.com/"
+      );
+    }
+  );
+});
+
+const cookieHeadersParam = {
+  clientId,
+  oauthScopes: ["openid"],
+  cookieSettings: {
+    idToken: "Path=/; Secure; SameSite=Lax",
+    accessToken: "Path=/; Secure; SameSite=Lax",
+    refreshToken: "Path=/refreshauth; Secure; SameSite=Lax",
+    nonce: "Path=/; Secure; HttpOnly; SameSite=Lax",
+    session: "Path=/; Secure; HttpOnly; SameSite=Lax",
+  },
+  internalCookieNames: {
+    nonce: "spa-auth-edge-nonce",
+    nonceHmac: "spa-auth-edge-nonce-hmac",
+    pkce: "spa-auth-edge-pkce",
+    refreshFailed: "spa-auth-edge-refresh",
+    session: `spa-auth-edge-session-${clientId}`,
+  },
+  nonceMaxAge: 300,
+  additionalCookies: {},
+  cookieChunkSize: 3800,
+};
+const amplifyKeyPrefix = `CognitoIdentityServiceProvider.${clientId}`;
+
+/**
+ * The cookies in the Set-Cookie headers, by name (without the cookie settings)
+ */
+function cookiesSet(headers: { value: string }[]) {
+  return Object.fromEntries(
+    headers.map(({ value }) => {
+      const [nameAndValue] = value.split(";");
+      const separator = nameAndValue.indexOf("=");
+      return [
+        nameAndValue.slice(0, separator),
+        nameAndValue.slice(separator + 1),
+      ];
+    })
+  );
+}
+
+describe("amplifyV6 cookie layout", () => {
+  const param = {
+    ...cookieHeadersParam,
+    cookieCompatibility: "amplifyV6" as const,
+  };
+  const tokens = {
+    id: idToken({ "cognito:username": "jane" }),
+    access: accessToken(),
+    refresh: "refresh-token",
+  };
+  const keyPrefix = amplifyKeyPrefix;
+
+  test("sets the cookies that Amplify v6 reads upon sign-in", () => {
+    const cookies = cookiesSet(
+      generateCookieHeaders.signIn({ ...param, tokens })
+    );
+    expect(cookies).toMatchObject({
+      [`${keyPrefix}.LastAuthUser`]: "jane",
+      [`${keyPrefix}.jane.idToken`]: tokens.id,
+      [`${keyPrefix}.jane.accessToken`]: tokens.access,
+      [`${keyPrefix}.jane.refreshToken`]: tokens.refresh,
+      [`${keyPrefix}.jane.clockDrift`]: "0",
+    });
+    expect(
+      JSON.parse(decodeURIComponent(cookies[`${keyPrefix}.jane.signInDetails`]))
+    ).toEqual({ loginId: "jane" });
+    expect(Object.keys(cookies)).not.toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/userData|tokenScopesString|hostedUI/),
+      ])
+    );
+  });
+
+  test("expires the cookies of Amplify v6 upon sign-out", () => {
+    const expired = generateCookieHeaders
+      .signOut({ ...param, tokens: { id: tokens.id } })
+      .filter(({ value }) => value.includes("Expires=Thu, 01 Jan 1970"))
+      .map(({ value }) => value.split("=")[0]);
+    expect(expired).toEqual(
+      expect.arrayContaining(
+        [
+          "LastAuthUser",
+          "jane.idToken",
+          "jane.accessToken",
+          "jane.refreshToken",
+          "jane.clockDrift",
+          "jane.signInDetails",
+        ].map((name) => `${keyPrefix}.${name}`)
+      )
+    );
+  });
+
+  test("reads the tokens from the cookies of Amplify v6", () => {
+    const cookies = cookiesSet(
+      generateCookieHeaders.signIn({ ...param, tokens })
+    );
+    const headers = {
+      cookie: [
+        {
+          key: "Cookie",
+          value: Object.entries(cookies)
+            .map(([name, value]) => `${name}=${value}`)
+            .join("; "),
+        },
+      ],
+    };
+    expect(extractAndParseCookies(headers, param)).toMatchObject({
+      tokenUserName: "jane",
+      idToken: tokens.id,
+      accessToken: tokens.access,
+      refreshToken: tokens.refresh,
+    });
+  });
+});
+
+describe("stale cookies", () => {
+  const param = {
+    ...cookieHeadersParam,
+    cookieCompatibility: "amplify" as const,
+  };
+  const tokens = {
+    id: idToken({ "cognito:username": "jane" }),
+    access: accessToken(),
+    refresh: "refresh-token",
+  };
+  const otherUsersCookies = {
+    [`${amplifyKeyPrefix}.john.idToken`]: "id-token",
+    [`${amplifyKeyPrefix}.john.accessToken`]: "access-token",
+    [`${amplifyKeyPrefix}.john.refreshToken`]: "refresh-token",
+    [`${amplifyKeyPrefix}.john.tokenScopesString`]: "openid",
+  };
+  const expiredCookies = (headers: { value: string }[]) =>
+    Object.fromEntries(
+      headers
+        .filter(({ value }) => value.includes("Expires=Thu, 01 Jan 1970"))
+        .map(({ value }) => [value.split("=")[0], value])
+    );
+  const now = Math.floor(Date.now() / 1000);
+  const signInAttempt = (attemptId: string, timestamp: number) => ({
+    [`spa-auth-edge-nonce-${attemptId}`]: `${timestamp}Tnonce`,
+    [`spa-auth-edge-nonce-hmac-${attemptId}`]: "hmac",
+    [`spa-auth-edge-pkce-${attemptId}`]: "pkce",
+  });
+
+  test("expires the Amplify cookies of other users, with their own cookie settings", () => {
+    const expired = expiredCookies(
+      generateCookieHeaders.refresh({
+        ...param,
+        tokens,
+        requestCookies: {
+          ...otherUsersCookies,
+          [`${amplifyKeyPrefix}.LastAuthUser`]: "jane",
+          [`${amplifyKeyPrefix}.jane.refreshToken`]: "refresh-token",
+        },
+      })
+    );
+    expect(Object.keys(expired)).toEqual(
+      expect.arrayContaining(Object.keys(otherUsersCookies))
+    );
+    expect(expired[`${amplifyKeyPrefix}.john.refreshToken`]).toContain(
+      "Path=/refreshauth;"
+    );
+    expect(expired[`${amplifyKeyPrefix}.john.idToken`]).toContain("Path=/;");
+    expect(Object.keys(expired)).not.toContain(
+      `${amplifyKeyPrefix}.LastAuthUser`
+    );
+    expect(Object.keys(expired)).not.toContain(
+      `${amplifyKeyPrefix}.jane.refreshToken`
+    );
+  });
+
+  test("expires the Amplify cookies of all users upon sign-out", () => {
+    const expired = expiredCookies(
+      generateCookieHeaders.signOut({
+        ...param,
+        tokens: { id: tokens.id },
+        requestCookies: otherUsersCookies,
+      })
+    );
+    expect(Object.keys(expired)).toEqual(
+      expect.arrayContaining(Object.keys(otherUsersCookies))
+    );
+  });
+
+  test("expires the cookies of sign-in attempts that are too old, too many or incomplete", () => {
+    const freshAttempts = [
+      "aaaaaaa1",
+      "aaaaaaa2",
+      "aaaaaaa3",
+      "aaaaaaa4",
+      "aaaaaaa5",
+    ];
+    const expired = expiredCookies(
+      generateCookieHeaders.refresh({
+        ...param,
+        tokens,
+        requestCookies: {
+          ...Object.assign(
+            {},
+            ...freshAttempts.map((attemptId, index) =>
+              signInAttempt(attemptId, now - index)
+            )
+          ),
+          ...signInAttempt("oldest01", now - 10),
+          ...signInAttempt("expired1", now - param.nonceMaxAge - 1),
+          "spa-auth-edge-nonce-nopkce01": `${now}Tnonce`,
+          "spa-auth-edge-nonce-hmac-nopkce01": "hmac",
+        },
+      })
+    );
+    expect(Object.keys(expired)).toEqual(
+      expect.arrayContaining([
+        ...Object.keys(signInAttempt("oldest01", now)),
+        ...Object.keys(signInAttempt("expired1", now)),
+        ...Object.keys(signInAttempt("nopkce01", now)),
+      ])
+    );
+    freshAttempts.forEach((attemptId) =>
+      Object.keys(signInAttempt(attemptId, now)).forEach((name) =>
+        expect(Object.keys(expired)).not.toContain(name)
+      )
+    );
+  });
+});
@@ -1,19 +1,35 @@
 // Copyright 2021 Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: MIT-0
 
-import { CloudFrontHeaders } from "aws-lambda";
+import { CloudFrontHeaders, CloudFrontRequest } from "aws-lambda";
 import { readFileSync } from "fs";
 import { formatWithOptions } from "util";
-import { createHmac, randomInt } from "crypto";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  randomInt,
+} from "crypto";
 import { parse } from "cookie";
+import { stringify as stringifyQueryString } from "querystring";
 import { fetch } from "./https";
 import { Agent, RequestOptions } from "https";
 import html from "./error-page/template.html";
-import { CognitoJwtVerifier } from "aws-jwt-verify";
+import { CognitoJwtVerifier, JwtRsaVerifier } from "aws-jwt-verify";
 import { Jwks } from "aws-jwt-verify/jwk";
+import { JwtPayload } from "aws-jwt-verify/jwt-model";
+import {
+  DynamoDbSessionStore,
+  SessionStore,
+  SessionStoreSettings,
+} from "./session-store";
+export { generateSessionId } from "./session-store";
 export {
   CognitoJwtInvalidGroupError,
   JwtExpiredError,
+  JwtInvalidScopeError,
 } from "aws-jwt-verify/error";
 
 export interface CookieSettings {
@@ -24,26 +40,62 @@ export interface CookieSettings {
   [key: string]: string;
 }
 
+export type CookieCompatibility =
+  | "amplify"
+  | "amplifyV6"
+  | "elasticsearch"
+  | "custom";
+
+/**
+ * Cookie names for cookie compatibility "custom". The prefix (e.g. "__Host-", or "app1-" to keep
+ * the cookies of deployments on sibling subdomains apart) is prepended to all cookie names
+ */
+export interface CustomCookieNames {
+  prefix?: string;
+  idToken?: string;
+  accessToken?: string;
+  refreshToken?: string;
+  nonce?: string;
+  nonceHmac?: string;
+  pkce?: string;
+  refreshFailed?: string;
+  session?: string;
+}
+
 function getDefaultCookieSettings(props: {
   mode: "spaMode" | "staticSiteMode";
-  compatibility: "amplify" | "elasticsearch";
+  compatibility: CookieCompatibility;
   redirectPathAuthRefresh: string;
+  hostPrefix?: boolean;
+  inlineRefresh?: boolean;
 }): CookieSettings {
   // Defaults can be overridden by the user (CloudFormation Stack parameter) but should be solid enough for most purposes
-  if (props.compatibility === "amplify") {
+  if (
+    props.compatibility === "amplify" ||
+    props.compatibility === "amplifyV6" ||
+    props.compatibility === "custom"
+  ) {
     if (props.mode === "spaMode") {
       return {
         idToken: "Path=/; Secure; SameSite=Lax",
         accessToken: "Path=/; Secure; SameSite=Lax",
         refreshToken: "Path=/; Secure; SameSite=Lax",
         nonce: "Path=/; Secure; HttpOnly; SameSite=Lax",
+        session: "Path=/; Secure; HttpOnly; SameSite=Lax",
       };
     } else if (props.mode === "staticSiteMode") {
       return {
         idToken: "Path=/; Secure; HttpOnly; SameSite=Lax",
         accessToken: "Path=/; Secure; HttpOnly; SameSite=Lax",
-        refreshToken: `Path=${props.redirectPathAuthRefresh}; Secure; HttpOnly; SameSite=Lax`,
+        // Browsers only accept cookies with prefix "__Host-" if these have Path=/, so then the refresh token can't be limited to the refresh path
+        // Neither can it be with inline refresh, as CheckAuth then needs the refresh token for any path
+        refreshToken: `Path=${
+          props.hostPrefix || props.inlineRefresh
+            ? "/"
+            : props.redirectPathAuthRefresh
+        }; Secure; HttpOnly; SameSite=Lax`,
         nonce: "Path=/; Secure; HttpOnly; SameSite=Lax",
+        session: "Path=/; Secure; HttpOnly; SameSite=Lax",
       };
     }
   } else if (props.compatibility === "elasticsearch") {
@@ -53,6 +105,7 @@ function getDefaultCookieSettings(props: {
       refreshToken: "Path=/; Secure; HttpOnly; SameSite=Lax",
       nonce: "Path=/; Secure; HttpOnly; SameSite=Lax",
       cognitoEnabled: "Path=/; Secure; SameSite=Lax",
+      session: "Path=/; Secure; HttpOnly; SameSite=Lax",
     };
   }
   throw new Error(
@@ -76,25 +129,83 @@ interface ConfigFromDiskWithHeaders extends ConfigFromDisk {
 
 interface ConfigFromDiskComplete extends ConfigFromDiskWithHeaders {
   userPoolArn: string;
-  jwks: Jwks;
+  jwks?: Jwks;
   clientId: string;
   oauthScopes: string[];
   cognitoAuthDomain: string;
   redirectPathSignIn: string;
   redirectPathSignOut: string;
   signOutUrl: string;
+  signOutEverywhereUrl?: string;
+  signOutRedirectUris?: string[];
+  allowedRedirectHosts?: string[];
   redirectPathAuthRefresh: string;
   cookieSettings: CookieSettings;
   mode: Mode;
   clientSecret: string;
   nonceSigningSecret: string;
-  cookieCompatibility: "amplify" | "elasticsearch";
+  cookieCompatibility: CookieCompatibility;
+  customCookieNames?: CustomCookieNames;
   additionalCookies: { [name: string]: string };
+  cookieChunkSize?: number;
+  cookieExpiryFromTokens?: boolean;
+  refreshTokenValidity?: number | null;
+  inlineRefresh?: boolean;
+  proactiveRefreshThreshold?: number;
   requiredGroup: string;
   secretAllowedCharacters?: string;
   pkceLength?: number;
   nonceLength?: number;
   nonceMaxAge?: number;
+  refreshNonceGracePeriod?: number;
+  accessRules?: AccessRule[];
+  claimConditions?: ClaimCondition[];
+  acceptBearerTokens?: boolean;
+  identityHeaders?: { [claim: string]: string };
+  identityHeadersSigningSecret?: string;
+  cookieEncryptionSecret?: string;
+  oidc?: OidcConfiguration | null;
+  groupsClaim?: string;
+  accessTokenAudience?: string;
+  sessionStore?: SessionStoreSettings | null;
+  profiles?: ProfileFromDisk[];
+}
+
+/**
+ * A profile applies its own configuration to requests for specific hosts and/or paths,
+ * e.g. to use another User Pool and client for one brand's domain name, or for "/partner".
+ * Settings that the profile doesn't override, are taken from the default configuration.
+ */
+export interface ProfileSelector {
+  name: string;
+  hosts?: string[];
+  pathPrefix?: string;
+}
+
+type ProfileFromDisk = ProfileSelector &
+  Partial<
+    Omit<ConfigFromDiskComplete, "logLevel" | "httpHeaders" | "profiles">
+  >;
+
+/**
+ * Configuration of a generic OpenID Connect provider (e.g. Okta, Auth0, Keycloak, Entra ID),
+ * as discovered at deploy-time from the issuer's .well-known/openid-configuration.
+ * If present, this is used instead of the Cognito User Pool.
+ */
+export interface OidcConfiguration {
+  issuer: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  endSessionEndpoint?: string;
+  revocationEndpoint?: string;
+  jwksUri: string;
+}
+
+interface AuthEndpoints {
+  authorization: string;
+  token: string;
+  endSession?: string;
+  revocation?: string;
 }
 
 function isConfigWithHeaders(config: any): config is ConfigFromDiskComplete {
@@ -113,7 +224,7 @@ enum LogLevel {
   "debug" = 40,
 }
 
-class Logger {
+export class Logger {
   constructor(private logLevel: LogLevel) {}
 
   private format(args: unknown[], depth = 10) {
@@ -140,6 +251,13 @@ class Logger {
       console.trace(this.format(args));
     }
   }
+  /**
+   * Security events (e.g. attempted open redirects) are always logged, regardless of the log level,
+   * as JSON, so these can be picked up by e.g. a CloudWatch Logs metric filter on "securityEvent"
+   */
+  public securityEvent(message: string, details: { [key: string]: unknown }) {
+    console.warn(JSON.stringify({ securityEvent: message, ...details }));
+  }
 }
 
 export interface Config extends ConfigFromDisk {
@@ -158,6 +276,16 @@ export interface CompleteConfig
   pkceLength: number;
   nonceLength: number;
   nonceMaxAge: number;
+  refreshNonceGracePeriod: number;
+  proactiveRefreshThreshold: number;
+  cookieChunkSize: number;
+  internalCookieNames: InternalCookieNames;
+  identityHeaders: { [claim: string]: string };
+  groupsClaim: string;
+  endpoints: AuthEndpoints;
+  allowedRedirectHosts: string[];
+  sessions?: SessionStore;
+  profile?: ProfileSelector;
 }
 
 export function getConfig(): Config {
@@ -183,18 +311,111 @@ export function getConfigWithHeaders(): ConfigWithHeaders {
   };
 }
 
-export function getCompleteConfig(): CompleteConfig {
+/**
+ * Get the complete configuration of each profile, followed by the default configuration
+ * (which applies to requests that none of the profiles match). Use selectConfigProfile() to pick one per request.
+ */
+export function getCompleteConfigProfiles(): CompleteConfig[] {
   const config = getConfigWithHeaders();
 
   if (!isCompleteConfig(config)) {
     throw new Error("Incomplete config in configuration.json");
   }
 
+  const { profiles = [], ...defaultConfig } = config;
+  return [
+    ...profiles.map((profile) => {
+      const { name, hosts, pathPrefix, ...overrides } =
+        validateProfile(profile);
+      return completeConfig({
+        ...defaultConfig,
+        ...getProfileDefaults(defaultConfig, overrides, pathPrefix),
+        ...overrides,
+        profile: {
+          name,
+          hosts: hosts?.map((host) => host.toLowerCase()),
+          pathPrefix,
+        },
+      });
+    }),
+    completeConfig(defaultConfig),
+  ];
+}
+
+function validateProfile(profile: ProfileFromDisk) {
+  if (!profile.name) {
+    throw new Error("Invalid profile: each profile should have a name");
+  }
+  if (!profile.hosts?.length && !profile.pathPrefix) {
+    throw new Error(
+      `Invalid profile ${profile.name}: specify hosts, pathPrefix, or both`
+    );
+  }
+  if (profile.pathPrefix && !/^\/.*[^/]$/.test(profile.pathPrefix)) {
+    throw new Error(
+      `Invalid profile ${profile.name}: pathPrefix should start with a slash, and not end with one`
+    );
+  }
+  return profile;
+}
+
+/**
+ * Defaults for settings that a profile should not simply take over from the default configuration:
+ *
+ * - Requests to the redirect paths must select the same profile, so for a profile with a pathPrefix these are under that prefix
+ * - The JWKS that was fetched at deploy-time is that of the default User Pool (or OpenID Connect provider):
+ *   if the profile uses another one, its JWKS will be fetched at runtime
+ */
+function getProfileDefaults(
+  defaultConfig: ConfigFromDiskComplete,
+  overrides: Partial<ConfigFromDiskComplete>,
+  pathPrefix?: string
+): Partial<ConfigFromDiskComplete> {
+  return {
+    ...(pathPrefix && {
+      redirectPathSignIn: `${pathPrefix}${defaultConfig.redirectPathSignIn}`,
+      redirectPathSignOut: `${pathPrefix}${defaultConfig.redirectPathSignOut}`,
+      redirectPathAuthRefresh: `${pathPrefix}${defaultConfig.redirectPathAuthRefresh}`,
+      signOutUrl: `${pathPrefix}${defaultConfig.signOutUrl}`,
+      signOutEverywhereUrl:
+        defaultConfig.signOutEverywhereUrl &&
+        `${pathPrefix}${defaultConfig.signOutEverywhereUrl}`,
+    }),
+    ...((overrides.userPoolArn || overrides.oidc) && { jwks: undefined }),
+  };
+}
+
+/**
+ * Select the configuration for the request: that of the first profile that matches the request's host and path,
+ * or else the default configuration
+ */
+export function selectConfigProfile<T extends CompleteConfig>(
+  configs: T[],
+  request: CloudFrontRequest
+) {
+  const host = request.headers["host"]?.[0]?.value.toLowerCase() ?? "";
+  const uri = normalizeUri(request.uri);
+  return configs.find(
+    ({ profile }) =>
+      !profile ||
+      ((!profile.hosts || profile.hosts.includes(host)) &&
+        (!profile.pathPrefix ||
+          uri === profile.pathPrefix ||
+          uri.startsWith(`${profile.pathPrefix}/`)))
+  )!;
+}
+
+function completeConfig(
+  config: ConfigWithHeaders &
+    ConfigFromDiskComplete & { profile?: ProfileSelector }
+): CompleteConfig {
   // Derive cookie settings by merging the defaults with the explicitly provided values
   const defaultCookieSettings = getDefaultCookieSettings({
     compatibility: config.cookieCompatibility,
     mode: config.mode,
     redirectPathAuthRefresh: config.redirectPathAuthRefresh,
+    hostPrefix: config.customCookieNames?.prefix?.startsWith("__Host-"),
+    inlineRefresh: config.inlineRefresh,
   });
   const cookieSettings = config.cookieSettings
     ? (Object.fromEntries(
@@ -207,8 +428,11 @@ export function getCompleteConfig(): CompleteConfig {
         ])
       ) as CookieSettings)
     : defaultCookieSettings;
+  if (config.cookieCompatibility === "custom") {
+    validateCookiePrefix(config.customCookieNames?.prefix, cookieSettings);
+  }
 
-  // Defaults for nonce and PKCE
+  // Defaults for nonce, PKCE and cookie chunking
   const defaults = {
     secretAllowedCharacters:
       "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~",
@@ -218,19 +442,218 @@ export function getCompleteConfig(): CompleteConfig {
       (cookieSettings?.nonce &&
         parseInt(parse(cookieSettings.nonce.toLowerCase())["max-age"])) ||
       60 * 60 * 24,
+    refreshNonceGracePeriod: 30, // Superseded nonces are accepted this long (in seconds) by the refresh path
+    proactiveRefreshThreshold: 0, // Tokens are refreshed this long (in seconds) before they expire
+    cookieChunkSize: 3800, // Browsers drop cookies over 4096 bytes (name, value and attributes together)
   };
 
   return {
     ...defaults,
     ...config,
     cookieSettings,
+    internalCookieNames: getInternalCookieNames(config),
+    identityHeaders: config.identityHeaders ?? {},
+    groupsClaim: config.groupsClaim || "cognito:groups",
+    endpoints: getAuthEndpoints(config),
+    allowedRedirectHosts: (config.allowedRedirectHosts ?? [])
+      .filter((host) => !!host)
+      .map((host) => host.toLowerCase()),
+    sessions: config.sessionStore
+      ? new DynamoDbSessionStore(config.sessionStore)
+      : undefined,
+  };
+}
+
+/**
+ * Browsers only accept cookies with names that start with "__Secure-" or "__Host-", if these are set
+ * with the right settings. We check that upfront, as browsers would otherwise silently ignore the cookies
+ */
+function validateCookiePrefix(
+  prefix: string | undefined,
+  cookieSettings: CookieSettings
+) {
+  if (!prefix?.startsWith("__Secure-") && !prefix?.startsWith("__Host-")) {
+    return;
+  }
+  Object.entries(cookieSettings).forEach(([cookie, settings]) => {
+    const attributes = settings
+      .split(";")
+      .map((attribute) => attribute.trim().toLowerCase());
+    if (!attributes.includes("secure")) {
+      throw new Error(
+        `Cookie settings for ${cookie} must include "Secure" when using cookie prefix ${prefix}`
+      );
+    }
+    if (
+      prefix.startsWith("__Host-") &&
+      (attributes.some((attribute) => attribute.startsWith("domain=")) ||
+        !attributes.includes("path=/"))
+    ) {
+      throw new Error(
+        `Cookie settings for ${cookie} must include "Path=/" and no "Domain" when using cookie prefix ${prefix}`
+      );
+    }
+  });
+}
+
+function getAuthEndpoints(config: ConfigFromDiskComplete): AuthEndpoints {
+  if (config.oidc) {
+    return {
+      authorization: config.oidc.authorizationEndpoint,
+      token: config.oidc.tokenEndpoint,
+      endSession: config.oidc.endSessionEndpoint,
+      revocation: config.oidc.revocationEndpoint,
+    };
+  }
+  return {
+    authorization: `https://${config.cognitoAuthDomain}/oauth2/authorize`,
+    token: `https://${config.cognitoAuthDomain}/oauth2/token`,
+    endSession: `https://${config.cognitoAuthDomain}/logout`,
+    revocation: `https://${config.cognitoAuthDomain}/oauth2/revoke`,
   };
 }
 
-export function getConfigWithJwtVerifier() {
-  const config = getCompleteConfig();
+/**
+ * Get the URL to redirect the user to, to sign out at the identity provider.
+ * Cognito's logout endpoint uses parameter "logout_uri", whereas OpenID Connect providers use "post_logout_redirect_uri".
+ * If the OpenID Connect provider has no end session endpoint, we can only sign out locally.
+ */
+export function getLogoutUrl(
+  config: Pick<CompleteConfig, "oidc" | "endpoints" | "clientId">,
+  { logoutUri, idToken }: { logoutUri: string; idToken?: string }
+) {
+  if (!config.endpoints.endSession) {
+    return logoutUri;
+  }
+  const qs = config.oidc
+    ? {
+        client_id: config.clientId,
+        post_logout_redirect_uri: logoutUri,
+        ...(idToken && { id_token_hint: idToken }),
+      }
+    : {
+        logout_uri: logoutUri,
+        client_id: config.clientId,
+      };
+  return `${config.endpoints.endSession}?${stringifyQueryString(qs)}`;
+}
+
+export function getConfigProfilesWithJwtVerifier() {
+  return getCompleteConfigProfiles().map(addJwtVerifier);
+}
+
+export type ConfigWithJwtVerifier = ReturnType<typeof addJwtVerifier>;
+
+function addJwtVerifier(config: CompleteConfig) {
+  const accessRules = compileAccessRules(config.accessRules ?? []);
+  const claimConditions = validateClaimConditions(config.claimConditions ?? []);
+  const { jwtVerifier, accessTokenVerifier } = createJwtVerifiers(config);
+  if (
+    config.oidc &&
+    !config.accessTokenAudience &&
+    accessRules.some((rule) => rule.scopes?.length)
+  ) {
+    throw new Error(
+      `${
+        config.profile ? `Profile ${config.profile.name}: a` : "A"
+      }ccess rules require OAuth scopes, which are checked in the access token, but no access token audience is configured`
+    );
+  }
+  accessRules
+    .flatMap((rule) => rule.scopes ?? [])
+    .filter((scope) => !config.oauthScopes.includes(scope))
+    .forEach((scope) =>
+      config.logger.warn(
+        `${
+          config.profile ? `Profile ${config.profile.name}: a` : "A"
+        }ccess rules require scope "${scope}", but that scope is not in the OAuth scopes that are requested upon sign-in`
+      )
+    );
+
+  return {
+    ...config,
+    accessRules,
+    claimConditions,
+    jwtVerifier,
+    accessTokenVerifier,
+  };
+}
+
+interface IdTokenVerifier {
+  verify(
+    jwt: string,
+    props: { groups?: string | string[] | null }
+  ): Promise<JwtPayload>;
+}
+
+interface AccessTokenVerifier {
+  verify(
+    jwt: string,
+    props: { scope?: string[]; groups?: string | string[] | null }
+  ): Promise<JwtPayload>;
+}
+
+function createJwtVerifiers(config: CompleteConfig): {
+  jwtVerifier: IdTokenVerifier;
+  accessTokenVerifier: AccessTokenVerifier;
+} {
+  if (config.oidc) {
+    // Generic OpenID Connect provider: groups are checked as claim condition, as the generic JwtRsaVerifier doesn't know about groups
+    const idTokenVerifier = JwtRsaVerifier.create({
+      issuer: config.oidc.issuer,
+      audience: config.clientId,
+      jwksUri: config.oidc.jwksUri,
+    });
+    if (config.jwks) idTokenVerifier.cacheJwks(config.jwks);
+    // The audience of access tokens differs per provider (if these are JWTs at all): unless it's configured,
+    // we can't tell access tokens for our client from those for any other client or API of the provider, so we accept none
+    const accessTokenVerifier =
+      config.accessTokenAudience &&
+      JwtRsaVerifier.create({
+        issuer: config.oidc.issuer,
+        audience: config.accessTokenAudience,
+        jwksUri: config.oidc.jwksUri,
+      });
+    if (accessTokenVerifier && config.jwks) {
+      accessTokenVerifier.cacheJwks(config.jwks);
+    }
+    return {
+      jwtVerifier: {
+        verify: async (jwt, { groups }) => {
+          const payload = await idTokenVerifier.verify(jwt);
+          const requiredGroups =
+            groups === undefined ? config.requiredGroup || null : groups;
+          if (requiredGroups) {
+            assertClaimConditions(payload, [
+              { claim: config.groupsClaim, anyOf: [requiredGroups].flat() },
+            ]);
+          }
+          return payload;
+        },
+      },
+      accessTokenVerifier: {
+        verify: async (jwt, { scope, groups }) => {
+          if (!accessTokenVerifier) {
+            throw new Error(
+              "Access tokens are not accepted, as no access token audience is configured"
+            );
+          }
+          const payload = await accessTokenVerifier.verify(jwt, { scope });
+          const requiredGroups =
+            groups === undefined ? config.requiredGroup || null : groups;
+          if (requiredGroups) {
+            assertClaimConditions(payload, [
+              { claim: config.groupsClaim, anyOf: [requiredGroups].flat() },
+            ]);
+          }
+          return payload;
+        },
+      },
+    };
+  }
+
   const userPoolId = config.userPoolArn.split("/")[1];
-  const jwtVerifier = CognitoJwtVerifier.create({
+  const idTokenVerifier = CognitoJwtVerifier.create({
     userPoolId,
     clientId: config.clientId,
     tokenUse: "id",
@@ -240,17 +663,254 @@ export function getConfigWithJwtVerifier() {
   // Optimization: load the JWKS (as it was at deploy-time) into the cache.
   // Then, the JWKS does not need to be fetched at runtime,
   // as long as only JWTs come by with a kid that is in this cached JWKS:
-  jwtVerifier.cacheJwks(config.jwks);
+  if (config.jwks) idTokenVerifier.cacheJwks(config.jwks);
+
+  // Access rules may require OAuth scopes, which are in the access token (not in the ID token)
+  const accessTokenVerifier = CognitoJwtVerifier.create({
+    userPoolId,
+    clientId: config.clientId,
+    tokenUse: "access",
+  });
+  if (config.jwks) accessTokenVerifier.cacheJwks(config.jwks);
 
   return {
-    ...config,
-    jwtVerifier,
+    jwtVerifier: {
+      verify: (jwt, { groups }) =>
+        idTokenVerifier.verify(jwt, groups !== undefined ? { groups } : {}),
+    },
+    accessTokenVerifier: {
+      verify: (jwt, { scope, groups }) =>
+        accessTokenVerifier.verify(jwt, {
+          scope,
+          groups: groups === undefined ? config.requiredGroup || null : groups,
+        }),
+    },
   };
 }
 
+/**
+ * Determine whether the JWT is an access token (and not an ID token), by its "token_use" claim (Cognito),
+ * or its "typ" header (RFC 9068). The JWT is not verified here: verify it with the verifier for that type of token
+ */
+export function isAccessToken(jwt: string) {
+  try {
+    const [header, payload] = jwt
+      .split(".")
+      .slice(0, 2)
+      .map((part) => JSON.parse(Buffer.from(part, "base64url").toString()));
+    return (
+      payload.token_use === "access" ||
+      /^(application\/)?at\+jwt$/i.test(header.typ ?? "")
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Access rule, to apply a specific access policy to requests whose URI matches a glob.
+ *
+ * - "public": no sign-in required
+ * - "authenticated": any signed-in user is allowed access (requiredGroup does not apply)
+ * - "groups": signed-in users that are in (at least one of) the listed Cognito groups are allowed access
+ *
+ * Claim conditions in the rule apply in addition to the globally configured claim conditions.
+ * If the rule lists OAuth scopes, the access token must be valid too, and include at least one of these scopes.
+ */
+export interface AccessRule {
+  path: string;
+  access: "public" | "authenticated" | "groups";
+  groups?: string[];
+  claims?: ClaimCondition[];
+  scopes?: string[];
+}
+
+export interface CompiledAccessRule extends AccessRule {
+  pathRegExp: RegExp;
+}
+
+function compileAccessRules(rules: AccessRule[]): CompiledAccessRule[] {
+  return rules.map((rule) => {
+    if (!rule.path?.startsWith("/")) {
+      throw new Error(
+        `Invalid access rule: path should start with a slash: ${JSON.stringify(
+          rule
+        )}`
+      );
+    }
+    if (!["public", "authenticated", "groups"].includes(rule.access)) {
+      throw new Error(
+        `Invalid access rule: unknown access "${rule.access}" for path ${rule.path}`
+      );
+    }
+    if (rule.access === "groups" && !rule.groups?.length) {
+      throw new Error(
+        `Invalid access rule: no groups specified for path ${rule.path}`
+      );
+    }
+    if (
+      rule.access === "public" &&
+      (rule.scopes?.length || rule.claims?.length)
+    ) {
+      throw new Error(
+        `Invalid access rule: public path ${rule.path} can't require scopes or claims`
+      );
+    }
+    return {
+      ...rule,
+      claims: validateClaimConditions(rule.claims ?? []),
+      pathRegExp: globToRegExp(rule.path),
+    };
+  });
+}
+
+/**
+ * Convert a URI glob to a regular expression:
+ * - "**" matches any number of path segments (e.g. "/reports/**" matches "/reports/a.pdf" and "/reports/2024/q1/a.pdf")
+ * - "*" matches any characters within a single path segment (so "/admin/*" matches "/admin/a" but not "/admin/a/b")
+ * - "?" matches a single character within a path segment
+ */
+export function globToRegExp(glob: string) {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        pattern += "(?:.*/)?";
+        i += 2;
+      } else {
+        pattern += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Find the first access rule whose path glob matches the (normalized) URI
+ */
+export function findAccessRule(rules: CompiledAccessRule[], uri: string) {
+  const normalizedUri = normalizeUri(uri);
+  return rules.find((rule) => rule.pathRegExp.test(normalizedUri));
+}
+
+/**
+ * Normalize the URI as origins might, before matching it against access rules.
+ * Otherwise, e.g. "/public/../admin/x" or "/public/%2e%2e%2fadmin/x" would match public path "/public/**",
+ * while the origin serves "/admin/x":
+ *
+ * - Percent-encoded unreserved characters are decoded (e.g. "%2e" to "."), as are encoded slashes and backslashes
+ * - Backslashes are treated as slashes, and consecutive slashes are collapsed
+ * - Dot-segments ("." and "..") are resolved
+ */
+export function normalizeUri(uri: string) {
+  const decoded = uri
+    .replace(/%([0-9a-f]{2})/gi, (encoded, hex) => {
+      const char = String.fromCharCode(parseInt(hex, 16));
+      return /[A-Za-z0-9\-._~/\\]/.test(char) ? char : encoded;
+    })
+    .replace(/\\/g, "/")
+    .replace(/\/{2,}/g, "/");
+  const segments: string[] = [];
+  const parts = decoded.split("/").slice(1);
+  parts.forEach((segment, index) => {
+    const isLast = index === parts.length - 1;
+    if (segment === "..") {
+      segments.pop();
+      if (isLast) segments.push("");
+    } else if (segment === ".") {
+      if (isLast) segments.push("");
+    } else {
+      segments.push(segment);
+    }
+  });
+  return `/${segments.join("/")}`;
+}
+
+type ClaimValue = string | number | boolean;
+
+/**
+ * Condition on a claim of the (verified) ID token. Specify exactly one operator:
+ *
+ * - equals: the claim has exactly this value, e.g. { "claim": "email_verified", "equals": true }
+ * - anyOf: the claim (or, for array claims, at least one of its values) is one of these values
+ * - allOf: the (array) claim includes all of these values
+ * - endsWith: the claim ends with this suffix (case insensitive), e.g. { "claim": "email", "endsWith": "@example.com" }
+ */
+export interface ClaimCondition {
+  claim: string;
+  equals?: ClaimValue;
+  anyOf?: ClaimValue[];
+  allOf?: ClaimValue[];
+  endsWith?: string;
+}
+
+const CLAIM_CONDITION_OPERATORS = ["equals", "anyOf", "allOf", "endsWith"];
+
+function validateClaimConditions(conditions: ClaimCondition[]) {
+  conditions.forEach((condition) => {
+    const operators = Object.keys(condition).filter((key) =>
+      CLAIM_CONDITION_OPERATORS.includes(key)
+    );
+    if (!condition.claim || operators.length !== 1) {
+      throw new Error(
+        `Invalid claim condition, specify a claim and exactly one of ${CLAIM_CONDITION_OPERATORS.join(
+          ", "
+        )}: ${JSON.stringify(condition)}`
+      );
+    }
+  });
+  return conditions;
+}
+
+export class ClaimConditionError extends Error {}
+
+/**
+ * Check the claims of a verified JWT against the claim conditions
+ * @throws ClaimConditionError if a condition is not met, with a message that says which one
+ */
+export function assertClaimConditions(
+  payload: { [claim: string]: unknown },
+  conditions: ClaimCondition[]
+) {
+  for (const condition of conditions) {
+    const value = payload[condition.claim];
+    const values = Array.isArray(value) ? value : [value];
+    let met: boolean;
+    let expectation: string;
+    if ("equals" in condition) {
+      met = value === condition.equals;
+      expectation = `should equal ${JSON.stringify(condition.equals)}`;
+    } else if (condition.anyOf) {
+      met = values.some((v) => condition.anyOf!.includes(v));
+      expectation = `should include any of ${JSON.stringify(condition.anyOf)}`;
+    } else if (condition.allOf) {
+      met = condition.allOf.every((v) => values.includes(v));
+      expectation = `should include all of ${JSON.stringify(condition.allOf)}`;
+    } else {
+      met =
+        typeof value === "string" &&
+        value.toLowerCase().endsWith(condition.endsWith!.toLowerCase());
+      expectation = `should end with ${JSON.stringify(condition.endsWith)}`;
+    }
+    if (!met) {
+      throw new ClaimConditionError(
+        `Claim condition not met: claim "${condition.claim}" ${expectation}`
+      );
+    }
+  }
+}
+
 type Cookies = { [key: string]: string };
 
-function extractCookiesFromHeaders(headers: CloudFrontHeaders) {
+export function extractCookiesFromHeaders(headers: CloudFrontHeaders) {
   // Cookies are present in the HTTP header "Cookie" that may be present multiple times.
   // This utility function parses occurrences  of that header and splits out all the cookies and their values
   // A simple object is returned that allows easy access by cookie name: e.g. cookies["nonce"]
@@ -262,9 +922,113 @@ function extractCookiesFromHeaders(headers: CloudFrontHeaders) {
     {} as Cookies
   );
 
+  return reassembleCookieChunks(cookies);
+}
+
+const COOKIE_CHUNK_NAME = /^(.+)\.(\d+)$/;
+
+/**
+ * Cookies with values that are too large for the browser are split in chunks by _generateCookieHeaders,
+ * named e.g. "ID-TOKEN.0", "ID-TOKEN.1", etc. This puts the chunks together again, under the original name: "ID-TOKEN".
+ * The chunks themselves are kept too, so that they can be expired later.
+ */
+function reassembleCookieChunks(cookies: Cookies) {
+  const chunkedNames = new Set(
+    Object.keys(cookies)
+      .map((name) => name.match(COOKIE_CHUNK_NAME))
+      .filter((match) => match?.[2] === "0")
+      .map((match) => match![1])
+  );
+  chunkedNames.forEach((name) => {
+    if (name in cookies) {
+      return;
+    }
+    let value = "";
+    for (let i = 0; `${name}.${i}` in cookies; i++) {
+      value += cookies[`${name}.${i}`];
+    }
+    cookies[name] = value;
+  });
   return cookies;
 }
 
+/**
+ * Get the names of the chunks of a cookie, that the browser currently has
+ */
+function getCookieChunkNames(requestCookies: Cookies, name: string) {
+  return Object.keys(requestCookies).filter(
+    (cookieName) => cookieName.match(COOKIE_CHUNK_NAME)?.[1] === name
+  );
+}
+
+/**
+ * Split cookies that are larger than the chunk size (name, value and settings together), into chunks that the browser will accept.
+ * Chunks that the browser has, but that aren't needed anymore (e.g. because the new value is smaller), are expired.
+ *
+ * Cookies that Amplify reads (i.e. that aren't HttpOnly, with cookie compatibility "amplify" or "amplifyV6") aren't split,
+ * as Amplify can't put chunks together again: we log a warning instead, as the browser will likely drop such a cookie
+ */
+export function chunkCookies(
+  cookies: Cookies,
+  requestCookies: Cookies,
+  {
+    chunkSize,
+    cookieCompatibility,
+    logger,
+  }: {
+    chunkSize: number;
+    cookieCompatibility?: CookieCompatibility;
+    logger?: Pick<Logger, "warn">;
+  }
+) {
+  return Object.entries(cookies).reduce((chunked, [name, valueAndSettings]) => {
+    const value = valueAndSettings.split(";")[0];
+    const settings = valueAndSettings.slice(value.length).replace(/^; /, "");
+    const existingChunkNames = getCookieChunkNames(requestCookies, name);
+    const readByAmplify =
+      (cookieCompatibility === "amplify" ||
+        cookieCompatibility === "amplifyV6") &&
+      !/(^|;)\s*httponly\s*(;|$)/i.test(settings);
+    if (`${name}=${valueAndSettings}`.length <= chunkSize || readByAmplify) {
+      if (readByAmplify && `${name}=${valueAndSettings}`.length > chunkSize) {
+        logger?.warn(
+          `Cookie ${name} is larger than ${chunkSize} bytes, so browsers may drop it. It is not split in chunks, as Amplify can't read chunks`
+        );
+      }
+      chunked[name] = valueAndSettings;
+      existingChunkNames.forEach(
+        (chunkName) => (chunked[chunkName] = addExpiry(settings))
+      );
+      return chunked;
+    }
+    // The chunk name and settings count towards the chunk size too. Chunk names are at most 3 characters longer than the name (".99")
+    const maxChunkValueLength = chunkSize - `${name}.99=; ${settings}`.length;
+    if (maxChunkValueLength < 3) {
+      throw new Error(
+        `Cookie chunk size ${chunkSize} is too small for the name and settings of cookie ${name}`
+      );
+    }
+    for (let i = 0, start = 0; start < value.length; i++) {
+      let end = Math.min(start + maxChunkValueLength, value.length);
+      // Don't split percent-encoded characters (e.g. "%7B") over chunks
+      const percent = value.lastIndexOf("%", end - 1);
+      if (percent >= 0 && percent > end - 3 && end < value.length) {
+        end = percent;
+      }
+      chunked[`${name}.${i}`] = `${value.slice(start, end)}; ${settings}`;
+      start = end;
+    }
+    existingChunkNames
+      .filter((chunkName) => !(chunkName in chunked))
+      .forEach((chunkName) => (chunked[chunkName] = addExpiry(settings)));
+    if (name in requestCookies) {
+      // The browser may have an unchunked cookie by this name, that the chunks replace
+      chunked[name] = addExpiry(settings);
+    }
+    return chunked;
+  }, {} as Cookies);
+}
+
 export function asCloudFrontHeaders(headers: HttpHeaders): CloudFrontHeaders {
   if (!headers) return {};
   // Turn a regular key-value object into the explicit format expected by CloudFront
@@ -305,6 +1069,27 @@ export function getAmplifyCookieNames(
   };
 }
 
+/**
+ * Amplify JS v6 (with CookieStorage) uses the same keys for the user name and JWTs as Amplify v5,
+ * but not the userData, tokenScopesString and amplify-signin-with-hostedUI keys. It does use clockDrift and signInDetails
+ */
+export function getAmplifyV6CookieNames(
+  clientId: string,
+  cookiesOrUserName: Cookies | string
+) {
+  const { lastUserKey, idTokenKey, accessTokenKey, refreshTokenKey } =
+    getAmplifyCookieNames(clientId, cookiesOrUserName);
+  const tokenKeyPrefix = idTokenKey.slice(0, -".idToken".length);
+  return {
+    lastUserKey,
+    idTokenKey,
+    accessTokenKey,
+    refreshTokenKey,
+    clockDriftKey: `${tokenKeyPrefix}.clockDrift`,
+    signInDetailsKey: `${tokenKeyPrefix}.signInDetails`,
+  };
+}
+
 export function getElasticsearchCookieNames() {
   return {
     idTokenKey: "ID-TOKEN",
@@ -314,47 +1099,394 @@ export function getElasticsearchCookieNames() {
   };
 }
 
+export function getCustomCookieNames(customCookieNames?: CustomCookieNames) {
+  const prefix = customCookieNames?.prefix ?? "";
+  return {
+    idTokenKey: `${prefix}${
+      customCookieNames?.idToken || "spa-auth-edge-id-token"
+    }`,
+    accessTokenKey: `${prefix}${
+      customCookieNames?.accessToken || "spa-auth-edge-access-token"
+    }`,
+    refreshTokenKey: `${prefix}${
+      customCookieNames?.refreshToken || "spa-auth-edge-refresh-token"
+    }`,
+  };
+}
+
+function getTokenCookieNames(
+  config: Pick<
+    CompleteConfig,
+    "clientId" | "cookieCompatibility" | "customCookieNames"
+  >,
+  cookiesOrUserName: Cookies | string
+): { [name: string]: string } {
+  if (config.cookieCompatibility === "amplify") {
+    return getAmplifyCookieNames(config.clientId, cookiesOrUserName);
+  } else if (config.cookieCompatibility === "amplifyV6") {
+    return getAmplifyV6CookieNames(config.clientId, cookiesOrUserName);
+  } else if (config.cookieCompatibility === "custom") {
+    return getCustomCookieNames(config.customCookieNames);
+  }
+  return getElasticsearchCookieNames();
+}
+
+/**
+ * Names of the cookies that we use ourselves, i.e. besides the cookies with the JWTs
+ */
+export interface InternalCookieNames {
+  nonce: string;
+  nonceHmac: string;
+  pkce: string;
+  refreshFailed: string;
+  session: string;
+}
+
+function getInternalCookieNames(
+  config: Pick<
+    ConfigFromDiskComplete,
+    "clientId" | "cookieCompatibility" | "customCookieNames"
+  >
+): InternalCookieNames {
+  const defaultNames = {
+    nonce: "spa-auth-edge-nonce",
+    nonceHmac: "spa-auth-edge-nonce-hmac",
+    pkce: "spa-auth-edge-pkce",
+    refreshFailed: "spa-auth-edge-refresh",
+    // The session cookie includes the client ID in its name, like the Amplify cookies do,
+    // so that the sessions of different clients (e.g. in other profiles) don't overwrite each other
+    session: `spa-auth-edge-session-${config.clientId}`,
+  };
+  if (config.cookieCompatibility !== "custom") {
+    return defaultNames;
+  }
+  const { prefix = "", ...customNames } = config.customCookieNames ?? {};
+  return {
+    nonce: `${prefix}${customNames.nonce || defaultNames.nonce}`,
+    nonceHmac: `${prefix}${customNames.nonceHmac || defaultNames.nonceHmac}`,
+    pkce: `${prefix}${customNames.pkce || defaultNames.pkce}`,
+    refreshFailed: `${prefix}${
+      customNames.refreshFailed || defaultNames.refreshFailed
+    }`,
+    session: `${prefix}${customNames.session || defaultNames.session}`,
+  };
+}
+
 export function extractAndParseCookies(
   headers: CloudFrontHeaders,
-  clientId: string,
-  cookieCompatibility: "amplify" | "elasticsearch"
+  config: Pick<
+    CompleteConfig,
+    | "clientId"
+    | "cookieCompatibility"
+    | "customCookieNames"
+    | "cookieEncryptionSecret"
+    | "internalCookieNames"
+  >
 ) {
   const cookies = extractCookiesFromHeaders(headers);
   if (!cookies) {
     return {};
   }
 
-  let cookieNames: { [name: string]: string };
-  if (cookieCompatibility === "amplify") {
-    cookieNames = getAmplifyCookieNames(clientId, cookies);
-  } else {
-    cookieNames = getElasticsearchCookieNames();
-  }
+  const cookieNames = getTokenCookieNames(config, cookies);
+  const { cookieEncryptionSecret, internalCookieNames } = config;
 
   return {
     tokenUserName: cookies[cookieNames.lastUserKey],
-    idToken: cookies[cookieNames.idTokenKey],
-    accessToken: cookies[cookieNames.accessTokenKey],
-    refreshToken: cookies[cookieNames.refreshTokenKey],
+    idToken: decryptTokenCookie(
+      cookieEncryptionSecret,
+      "id",
+      cookies[cookieNames.idTokenKey]
+    ),
+    accessToken: decryptTokenCookie(
+      cookieEncryptionSecret,
+      "access",
+      cookies[cookieNames.accessTokenKey]
+    ),
+    refreshToken: decryptTokenCookie(
+      cookieEncryptionSecret,
+      "refresh",
+      cookies[cookieNames.refreshTokenKey]
+    ),
     scopes: cookies[cookieNames.scopeKey],
-    nonce: cookies["spa-auth-edge-nonce"],
-    nonceHmac: cookies["spa-auth-edge-nonce-hmac"],
-    pkce: cookies["spa-auth-edge-pkce"],
-    refreshFailed: cookies["spa-auth-edge-refresh"],
+    nonce: cookies[internalCookieNames.nonce],
+    nonceHmac: cookies[internalCookieNames.nonceHmac],
+    pkce: cookies[internalCookieNames.pkce],
+    refreshFailed: cookies[internalCookieNames.refreshFailed],
+    signInAttempts: extractSignInAttempts(cookies, internalCookieNames),
+    sessionId: cookies[internalCookieNames.session],
+  };
+}
+
+/**
+ * In session store mode, the JWTs are not in the cookies, but in the session store:
+ * look these up by the session ID from the cookies (and ignore any JWTs in the cookies)
+ */
+export async function resolveSession<
+  T extends {
+    sessionId?: string;
+    idToken?: string;
+    accessToken?: string;
+    refreshToken?: string;
+  }
+>(
+  config: Pick<CompleteConfig, "sessions" | "clientId" | "logger">,
+  cookies: T
+) {
+  if (!config.sessions) {
+    return cookies;
+  }
+  const session = cookies.sessionId
+    ? await config.sessions.get(cookies.sessionId)
+    : undefined;
+  if (!session || session.clientId !== config.clientId) {
+    config.logger.debug("No session found for session cookie");
+    return {
+      ...cookies,
+      idToken: undefined,
+      accessToken: undefined,
+      refreshToken: undefined,
+    };
+  }
+  return {
+    ...cookies,
+    idToken: session.idToken,
+    accessToken: session.accessToken,
+    refreshToken: session.refreshToken,
+  };
+}
+
+/**
+ * Each sign-in attempt has its own nonce, nonce HMAC and PKCE cookies, keyed by an attempt ID (that is included in the state),
+ * so that sign-in attempts in multiple browser tabs don't overwrite each other's cookies
+ */
+export function getSignInAttemptCookieNames(
+  internalCookieNames: InternalCookieNames,
+  attemptId: string
+) {
+  return {
+    nonce: `${internalCookieNames.nonce}-${attemptId}`,
+    nonceHmac: `${internalCookieNames.nonceHmac}-${attemptId}`,
+    pkce: `${internalCookieNames.pkce}-${attemptId}`,
   };
 }
 
+const SIGN_IN_ATTEMPT_ID_CHARACTERS = "abcdefghijklmnopqrstuvwxyz0123456789";
+const SIGN_IN_ATTEMPT_ID_LENGTH = 8;
+const SIGN_IN_ATTEMPT_ID = new RegExp(
+  `^[${SIGN_IN_ATTEMPT_ID_CHARACTERS}]{${SIGN_IN_ATTEMPT_ID_LENGTH}}$`
+);
+const MAX_SIGN_IN_ATTEMPTS = 5;
+
+export function generateSignInAttemptId() {
+  return generateSecret(
+    SIGN_IN_ATTEMPT_ID_CHARACTERS,
+    SIGN_IN_ATTEMPT_ID_LENGTH
+  );
+}
+
+export interface SignInAttempt {
+  nonce?: string;
+  nonceHmac?: string;
+  pkce?: string;
+}
+
+function extractSignInAttempts(
+  cookies: Cookies,
+  internalCookieNames: InternalCookieNames
+) {
+  const attempts: { [attemptId: string]: SignInAttempt } = {};
+  Object.entries(cookies).forEach(([name, value]) => {
+    (["nonce", "nonceHmac", "pkce"] as const).forEach((cookieType) => {
+      const namePrefix = `${internalCookieNames[cookieType]}-`;
+      const attemptId = name.slice(namePrefix.length);
+      if (!name.startsWith(namePrefix) || !SIGN_IN_ATTEMPT_ID.test(attemptId))
+        return;
+      (attempts[attemptId] ??= {})[cookieType] = value;
+    });
+  });
+  return attempts;
+}
+
+export function generateNonce(
+  config: Pick<
+    CompleteConfig,
+    "secretAllowedCharacters" | "nonceLength" | "logger"
+  >
+) {
+  const randomString = generateSecret(
+    config.secretAllowedCharacters,
+    config.nonceLength
+  );
+  const nonce = `${timestampInSeconds()}T${randomString}`;
+  config.logger.debug("Generated new nonce:", nonce);
+  return nonce;
+}
+
+/**
+ * Get the timestamp (in seconds) of a nonce, which we generate as "<timestamp>T<random string>"
+ */
+export function getNonceTimestamp(nonce: string) {
+  return parseInt(nonce.slice(0, nonce.indexOf("T")));
+}
+
+export function getNonceCookies({
+  nonce,
+  nonceLength,
+  nonceSigningSecret,
+  cookieSettings,
+  cookieNames,
+}: {
+  nonce: string;
+  nonceLength: number;
+  nonceSigningSecret: string;
+  cookieSettings: {
+    nonce: string;
+  };
+  cookieNames: { nonce: string; nonceHmac: string };
+}) {
+  return [
+    {
+      key: "set-cookie",
+      value: `${cookieNames.nonce}=${encodeURIComponent(nonce)}; ${
+        cookieSettings.nonce
+      }`,
+    },
+    {
+      key: "set-cookie",
+      value: `${cookieNames.nonceHmac}=${encodeURIComponent(
+        sign(nonce, nonceSigningSecret, nonceLength)
+      )}; ${cookieSettings.nonce}`,
+    },
+  ];
+}
+
+/**
+ * Generate cookie headers to expire the cookies of the given sign-in attempts, and of stale sign-in attempts:
+ * attempts that can't complete anymore because their nonce is too old or cookies are missing,
+ * and the oldest attempts beyond the maximum number of concurrent attempts (to keep the Cookie header small)
+ */
+export function expireSignInAttemptCookies(
+  config: Pick<
+    CompleteConfig,
+    "cookieSettings" | "nonceMaxAge" | "internalCookieNames"
+  >,
+  signInAttempts: { [attemptId: string]: SignInAttempt } = {},
+  attemptIdsToExpire: string[] = []
+) {
+  const staleAttemptIds = getStaleSignInAttemptIds(config, signInAttempts);
+  return [...new Set([...attemptIdsToExpire, ...staleAttemptIds])]
+    .flatMap((attemptId) =>
+      Object.values(
+        getSignInAttemptCookieNames(config.internalCookieNames, attemptId)
+      )
+    )
+    .map((name) => ({
+      key: "set-cookie",
+      value: `${name}=${addExpiry(config.cookieSettings.nonce)}`,
+    }));
+}
+
+function getStaleSignInAttemptIds(
+  config: Pick<CompleteConfig, "nonceMaxAge">,
+  signInAttempts: { [attemptId: string]: SignInAttempt }
+) {
+  const now = timestampInSeconds();
+  return Object.entries(signInAttempts)
+    .map(([attemptId, { nonce, nonceHmac, pkce }]) => ({
+      attemptId,
+      // Attempts with missing cookies can't complete anyway, so we treat these as the oldest
+      timestamp: nonce && nonceHmac && pkce ? getNonceTimestamp(nonce) : 0,
+    }))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .filter(
+      ({ timestamp }, index) =>
+        !(now - timestamp <= config.nonceMaxAge) ||
+        index >= MAX_SIGN_IN_ATTEMPTS
+    )
+    .map(({ attemptId }) => attemptId);
+}
+
+/**
+ * Find cookies that the browser still sends along, but that are of no use anymore, so that we can expire these:
+ * - Amplify cookies of other users than the active one (the cookie names include the user name, so these are left behind when users switch accounts)
+ * - Cookies of stale sign-in attempts
+ * Otherwise these would accumulate, until requests fail because the headers are too large (e.g. HTTP 431)
+ */
+function getStaleCookies(
+  param: Pick<
+    GenerateCookieHeadersParam,
+    | "clientId"
+    | "cookieCompatibility"
+    | "cookieSettings"
+    | "nonceMaxAge"
+    | "internalCookieNames"
+  >,
+  requestCookies: Cookies,
+  activeUserName?: string
+) {
+  const staleCookies: Cookies = {};
+  if (
+    param.cookieCompatibility === "amplify" ||
+    param.cookieCompatibility === "amplifyV6"
+  ) {
+    const { lastUserKey } = getAmplifyCookieNames(param.clientId, "");
+    const keyPrefix = `CognitoIdentityServiceProvider.${param.clientId}.`;
+    Object.keys(requestCookies)
+      .filter(
+        (name) =>
+          name.startsWith(keyPrefix) &&
+          !name.startsWith(lastUserKey) &&
+          (activeUserName === undefined ||
+            !name.startsWith(`${keyPrefix}${activeUserName}.`))
+      )
+      .forEach((name) => {
+        let cookieSettings = param.cookieSettings.idToken;
+        if (/\.refreshToken(\.\d+)?$/.test(name)) {
+          cookieSettings = param.cookieSettings.refreshToken;
+        } else if (/\.(accessToken|tokenScopesString)(\.\d+)?$/.test(name)) {
+          cookieSettings = param.cookieSettings.accessToken;
+        }
+        staleCookies[name] = addExpiry(cookieSettings);
+      });
+  }
+  getStaleSignInAttemptIds(
+    param,
+    extractSignInAttempts(requestCookies, param.internalCookieNames)
+  )
+    .flatMap((attemptId) =>
+      Object.values(
+        getSignInAttemptCookieNames(param.internalCookieNames, attemptId)
+      )
+    )
+    .forEach(
+      (name) => (staleCookies[name] = addExpiry(param.cookieSettings.nonce))
+    );
+  return staleCookies;
+}
+
 interface GenerateCookieHeadersParam {
   clientId: string;
   oauthScopes: string[];
   cookieSettings: CookieSettings;
-  cookieCompatibility: "amplify" | "elasticsearch";
+  cookieCompatibility: CookieCompatibility;
+  customCookieNames?: CustomCookieNames;
+  internalCookieNames: InternalCookieNames;
+  nonceMaxAge: number;
   additionalCookies: { [name: string]: string };
   tokens: {
-    id: string;
+    id?: string;
     access?: string;
     refresh?: string;
   };
+  tokenUserName?: string; // Used for the cookie names if there's no ID token, e.g. because its cookie expired
+  cookieExpiryFromTokens?: boolean; // If set, the cookies with JWTs expire when the JWTs do
+  refreshTokenValidity?: number | null; // In seconds
+  sessionId?: string; // In session store mode: the tokens are in the session store, only the session ID goes in a cookie
+  cookieChunkSize: number;
+  cookieEncryptionSecret?: string; // If set, the JWTs are encrypted before they're put in cookies
+  requestCookies?: Cookies; // The cookies the browser sent, so that chunks of cookies can be expired
+  logger?: Logger;
 }
 
 export const generateCookieHeaders = {
@@ -365,7 +1497,7 @@ export const generateCookieHeaders = {
   ) => _generateCookieHeaders({ ...param, scenario: "SIGN_IN" }),
   refresh: (
     param: GenerateCookieHeadersParam & {
-      tokens: { id: string; access: string };
+      tokens: { id: string; access: string; refresh?: string };
     }
   ) => _generateCookieHeaders({ ...param, scenario: "REFRESH" }),
   refreshFailed: (param: GenerateCookieHeadersParam) =>
@@ -389,8 +1521,12 @@ function _generateCookieHeaders(
    * cookies can be set (search codebase for "set-cookie").
    */
 
-  const decodedIdToken = decodeToken(param.tokens.id);
-  const tokenUserName = decodedIdToken["cognito:username"];
+  const decodedIdToken = param.tokens.id ? decodeToken(param.tokens.id) : {};
+  // Generic OpenID Connect providers don't include "cognito:username", so we use the subject instead
+  const tokenUserName =
+    decodedIdToken["cognito:username"] ??
+    decodedIdToken["sub"] ??
+    param.tokenUserName;
   const userData = JSON.stringify({
     UserAttributes: [
       {
@@ -406,57 +1542,135 @@ function _generateCookieHeaders(
   });
 
   const cookiesToSetOrExpire: Cookies = {};
-  const cookieNames =
-    param.cookieCompatibility === "amplify"
-      ? getAmplifyCookieNames(param.clientId, tokenUserName)
-      : getElasticsearchCookieNames();
+  const cookieNames = getTokenCookieNames(param, tokenUserName);
+  const { internalCookieNames } = param;
+
+  // Cookie expiry may be derived from the tokens, so that the cookies last exactly as long as the tokens they hold
+  let tokenCookieSettings = param.cookieSettings;
+  let signInCookieSettings = param.cookieSettings;
+  if (
+    param.cookieExpiryFromTokens &&
+    (param.scenario === "SIGN_IN" || param.scenario === "REFRESH")
+  ) {
+    const refreshTokenExpiry = param.refreshTokenValidity
+      ? new Date(Date.now() + param.refreshTokenValidity * 1000)
+      : undefined;
+    tokenCookieSettings = {
+      ...param.cookieSettings,
+      idToken: setExpiry(
+        param.cookieSettings.idToken,
+        getTokenExpiry(param.tokens.id!)
+      ),
+      accessToken: setExpiry(
+        param.cookieSettings.accessToken,
+        getTokenExpiry(param.tokens.access!)
+      ),
+      refreshToken: refreshTokenExpiry
+        ? setExpiry(param.cookieSettings.refreshToken, refreshTokenExpiry)
+        : param.cookieSettings.refreshToken,
+    };
+    // The other cookies, such as the one with the user name (that's needed to find the refresh token cookie), last as long as the refresh token
+    if (refreshTokenExpiry) {
+      signInCookieSettings = {
+        ...param.cookieSettings,
+        idToken: setExpiry(param.cookieSettings.idToken, refreshTokenExpiry),
+        accessToken: setExpiry(
+          param.cookieSettings.accessToken,
+          refreshTokenExpiry
+        ),
+      };
+    }
+  }
 
   // Set or clear JWTs from the cookies
-  if (param.scenario === "SIGN_IN") {
-    // JWTs:
-    cookiesToSetOrExpire[
-      cookieNames.idTokenKey
-    ] = `${param.tokens.id}; ${param.cookieSettings.idToken}`;
-    cookiesToSetOrExpire[
-      cookieNames.accessTokenKey
-    ] = `${param.tokens.access}; ${param.cookieSettings.accessToken}`;
+  if (param.scenario === "SIGN_IN" && param.sessionId) {
+    // Session store mode: the JWTs are in the session store, the cookie only holds the session ID
     cookiesToSetOrExpire[
-      cookieNames.refreshTokenKey
-    ] = `${param.tokens.refresh}; ${param.cookieSettings.refreshToken}`;
+      internalCookieNames.session
+    ] = `${param.sessionId}; ${param.cookieSettings.session}`;
+    // Clear marker for failed refresh
+    cookiesToSetOrExpire[internalCookieNames.refreshFailed] = addExpiry(
+      param.cookieSettings.nonce
+    );
+  } else if (param.scenario === "SIGN_IN") {
+    // JWTs:
+    cookiesToSetOrExpire[cookieNames.idTokenKey] = `${encryptTokenCookie(
+      param.cookieEncryptionSecret,
+      "id",
+      param.tokens.id!
+    )}; ${tokenCookieSettings.idToken}`;
+    cookiesToSetOrExpire[cookieNames.accessTokenKey] = `${encryptTokenCookie(
+      param.cookieEncryptionSecret,
+      "access",
+      param.tokens.access!
+    )}; ${tokenCookieSettings.accessToken}`;
+    cookiesToSetOrExpire[cookieNames.refreshTokenKey] = `${encryptTokenCookie(
+      param.cookieEncryptionSecret,
+      "refresh",
+      param.tokens.refresh!
+    )}; ${tokenCookieSettings.refreshToken}`;
     // Other cookies:
     if ("lastUserKey" in cookieNames)
       cookiesToSetOrExpire[
         cookieNames.lastUserKey
-      ] = `${tokenUserName}; ${param.cookieSettings.idToken}`;
+      ] = `${tokenUserName}; ${signInCookieSettings.idToken}`;
     if ("scopeKey" in cookieNames)
       cookiesToSetOrExpire[cookieNames.scopeKey] = `${param.oauthScopes.join(
         " "
-      )}; ${param.cookieSettings.accessToken}`;
+      )}; ${signInCookieSettings.accessToken}`;
     if ("userDataKey" in cookieNames)
       cookiesToSetOrExpire[cookieNames.userDataKey] = `${encodeURIComponent(
         userData
-      )}; ${param.cookieSettings.idToken}`;
+      )}; ${signInCookieSettings.idToken}`;
     if ("hostedUiKey" in cookieNames)
       cookiesToSetOrExpire[
         cookieNames.hostedUiKey
-      ] = `true; ${param.cookieSettings.accessToken}`;
+      ] = `true; ${signInCookieSettings.accessToken}`;
     if ("cognitoEnabledKey" in cookieNames)
       cookiesToSetOrExpire[
         cookieNames.cognitoEnabledKey
       ] = `True; ${param.cookieSettings.cognitoEnabled}`;
+    if ("clockDriftKey" in cookieNames)
+      // The clock drift (in milliseconds) is measured by Amplify upon sign-in in the browser, which we can't do here
+      cookiesToSetOrExpire[
+        cookieNames.clockDriftKey
+      ] = `0; ${signInCookieSettings.idToken}`;
+    if ("signInDetailsKey" in cookieNames)
+      cookiesToSetOrExpire[
+        cookieNames.signInDetailsKey
+      ] = `${encodeURIComponent(JSON.stringify({ loginId: tokenUserName }))}; ${
+        signInCookieSettings.idToken
+      }`;
+    // Clear marker for failed refresh
+    cookiesToSetOrExpire[internalCookieNames.refreshFailed] = addExpiry(
+      param.cookieSettings.nonce
+    );
+  } else if (param.scenario === "REFRESH" && param.sessionId) {
+    // Session store mode: the session (and so the session cookie) stays the same
     // Clear marker for failed refresh
-    cookiesToSetOrExpire["spa-auth-edge-refresh"] = addExpiry(
+    cookiesToSetOrExpire[internalCookieNames.refreshFailed] = addExpiry(
       param.cookieSettings.nonce
     );
   } else if (param.scenario === "REFRESH") {
-    cookiesToSetOrExpire[
-      cookieNames.idTokenKey
-    ] = `${param.tokens.id}; ${param.cookieSettings.idToken}`;
-    cookiesToSetOrExpire[
-      cookieNames.accessTokenKey
-    ] = `${param.tokens.access}; ${param.cookieSettings.accessToken}`;
+    cookiesToSetOrExpire[cookieNames.idTokenKey] = `${encryptTokenCookie(
+      param.cookieEncryptionSecret,
+      "id",
+      param.tokens.id!
+    )}; ${tokenCookieSettings.idToken}`;
+    cookiesToSetOrExpire[cookieNames.accessTokenKey] = `${encryptTokenCookie(
+      param.cookieEncryptionSecret,
+      "access",
+      param.tokens.access!
+    )}; ${tokenCookieSettings.accessToken}`;
+    // With refresh token rotation, Cognito returns a new refresh token, that replaces the old one
+    if (param.tokens.refresh)
+      cookiesToSetOrExpire[cookieNames.refreshTokenKey] = `${encryptTokenCookie(
+        param.cookieEncryptionSecret,
+        "refresh",
+        param.tokens.refresh
+      )}; ${tokenCookieSettings.refreshToken}`;
     // Clear marker for failed refresh
-    cookiesToSetOrExpire["spa-auth-edge-refresh"] = addExpiry(
+    cookiesToSetOrExpire[internalCookieNames.refreshFailed] = addExpiry(
       param.cookieSettings.nonce
     );
   } else if (param.scenario === "SIGN_OUT") {
@@ -491,8 +1705,20 @@ function _generateCookieHeaders(
       cookiesToSetOrExpire[cookieNames.cognitoEnabledKey] = addExpiry(
         param.cookieSettings.cognitoEnabled
       );
+    if ("clockDriftKey" in cookieNames)
+      cookiesToSetOrExpire[cookieNames.clockDriftKey] = addExpiry(
+        param.cookieSettings.idToken
+      );
+    if ("signInDetailsKey" in cookieNames)
+      cookiesToSetOrExpire[cookieNames.signInDetailsKey] = addExpiry(
+        param.cookieSettings.idToken
+      );
+    if (param.sessionId)
+      cookiesToSetOrExpire[internalCookieNames.session] = addExpiry(
+        param.cookieSettings.session
+      );
     // Clear marker for failed refresh
-    cookiesToSetOrExpire["spa-auth-edge-refresh"] = addExpiry(
+    cookiesToSetOrExpire[internalCookieNames.refreshFailed] = addExpiry(
       param.cookieSettings.nonce
     );
   } else if (param.scenario === "REFRESH_FAILED") {
@@ -500,25 +1726,46 @@ function _generateCookieHeaders(
     cookiesToSetOrExpire[cookieNames.refreshTokenKey] = addExpiry(
       param.cookieSettings.refreshToken
     );
+    // If cookie expiry is derived from the tokens, the cookie with the user name lasts as long as the refresh token
+    // (otherwise CheckAuth would keep redirecting here, once the ID token cookie expires)
+    if (param.cookieExpiryFromTokens && "lastUserKey" in cookieNames)
+      cookiesToSetOrExpire[cookieNames.lastUserKey] = addExpiry(
+        param.cookieSettings.idToken
+      );
     // Add marker for failed refresh
     cookiesToSetOrExpire[
-      "spa-auth-edge-refresh"
+      internalCookieNames.refreshFailed
     ] = `failed; ${param.cookieSettings.nonce}`;
   }
 
   // Always expire nonce, nonceHmac and pkce
   [
-    "spa-auth-edge-nonce",
-    "spa-auth-edge-nonce-hmac",
-    "spa-auth-edge-pkce",
+    internalCookieNames.nonce,
+    internalCookieNames.nonceHmac,
+    internalCookieNames.pkce,
   ].forEach((key) => {
     cookiesToSetOrExpire[key] = addExpiry(param.cookieSettings.nonce);
   });
 
+  // Expire stale cookies too, while we're at it. Upon sign-out, all Amplify cookies of all users are stale
+  const staleCookies = getStaleCookies(
+    param,
+    param.requestCookies ?? {},
+    param.scenario === "SIGN_OUT" ? undefined : tokenUserName
+  );
+
   // Return cookie object in format of CloudFront headers
   return Object.entries({
     ...param.additionalCookies,
-    ...cookiesToSetOrExpire,
+    ...chunkCookies(
+      { ...staleCookies, ...cookiesToSetOrExpire },
+      param.requestCookies ?? {},
+      {
+        chunkSize: param.cookieChunkSize,
+        cookieCompatibility: param.cookieCompatibility,
+        logger: param.logger,
+      }
+    ),
   }).map(([k, v]) => ({ key: "set-cookie", value: `${k}=${v}` }));
 }
 
@@ -528,13 +1775,40 @@ function _generateCookieHeaders(
  * @returns Updated cookie settings that you can use as cookie value, i.e. with leading ; and expire instruction, for example: "; Domain=example.com; Secure; HttpOnly; Expires=Thu, 01 Jan 1970 00:00:00 GMT"
  */
 function addExpiry(cookieSettings: string) {
+  return `; ${setExpiry(cookieSettings, new Date(0))}`;
+}
+
+/**
+ * Set the expiration time of a cookie, replacing any Max-Age or Expires in the cookie settings
+ * @param cookieSettings The cookie settings to set the expiration time in, for example: "Path=/; Secure; HttpOnly; Max-Age=3600"
+ * @param expires The expiration time
+ * @returns Updated cookie settings, for example: "Path=/; Secure; HttpOnly; Expires=Thu, 01 Jan 2026 00:00:00 GMT"
+ */
+function setExpiry(cookieSettings: string, expires: Date) {
   const parts = cookieSettings
     .split(";")
     .map((part) => part.trim())
+    .filter((part) => !!part)
     .filter((part) => !part.toLowerCase().startsWith("max-age"))
     .filter((part) => !part.toLowerCase().startsWith("expires"));
-  const expires = `Expires=${new Date(0).toUTCString()}`;
-  return ["", ...parts, expires].join("; ");
+  return [...parts, `Expires=${expires.toUTCString()}`].join("; ");
+}
+
+/**
+ * Whether the ID token should be refreshed: if it has expired, or expires within the proactive refresh threshold.
+ * The threshold is capped at half the token's lifetime, so that freshly refreshed tokens are never due for refresh right away
+ */
+export function isDueForRefresh(
+  config: Pick<CompleteConfig, "proactiveRefreshThreshold">,
+  idToken: string
+) {
+  const { exp, iat = exp } = decodeToken(idToken);
+  const threshold = Math.min(config.proactiveRefreshThreshold, (exp - iat) / 2);
+  return exp - timestampInSeconds() <= threshold;
+}
+
+export function getTokenExpiry(jwt: string) {
+  return new Date(decodeToken(jwt).exp * 1000);
 }
 
 function decodeToken(jwt: string) {
@@ -570,7 +1844,14 @@ export async function httpPostToCognitoWithRetry(
             data: responseData,
           })
         );
-        if (!res.headers["content-type"]?.startsWith("application/json")) {
+        if (res.status === 200 && !responseData) {
+          // E.g. the revoke endpoint responds with an empty body upon success
+          return { ...res, data: {} };
+        }
+        // The Cognito user APIs (e.g. GlobalSignOut) respond with application/x-amz-json-1.1
+        if (
+          !res.headers["content-type"]?.match(/^application\/(x-amz-)?json/)
+        ) {
           throw new Error(
             `Content-Type is ${res.headers["content-type"]}, expected application/json`
           );
@@ -578,7 +1859,9 @@ export async function httpPostToCognitoWithRetry(
         const parsedResponseData = JSON.parse(responseData);
         if (res.status !== 200) {
           const errorMessage =
-            parsedResponseData.error || `Status is ${res.status}, expected 200`;
+            parsedResponseData.error ||
+            parsedResponseData.__type ||
+            `Status is ${res.status}, expected 200`;
           if (res.status && res.status >= 400 && res.status < 500) {
             // No use in retrying client errors
             throw new NonRetryableFetchError(errorMessage);
@@ -620,6 +1903,113 @@ export async function httpPostToCognitoWithRetry(
   }
 }
 
+/**
+ * Exchange the refresh token for new tokens at the token endpoint
+ * (with refresh token rotation, the response includes a new refresh token too)
+ */
+export async function refreshTokens(
+  config: Pick<
+    CompleteConfig,
+    "clientId" | "clientSecret" | "endpoints" | "logger"
+  >,
+  refreshToken: string
+) {
+  const headers: { "Content-Type": string; Authorization?: string } = {
+    "Content-Type": "application/x-www-form-urlencoded",
+  };
+
+  if (config.clientSecret) {
+    const encodedSecret = Buffer.from(
+      `${config.clientId}:${config.clientSecret}`
+    ).toString("base64");
+    headers["Authorization"] = `Basic ${encodedSecret}`;
+  }
+
+  const body = stringifyQueryString({
+    grant_type: "refresh_token",
+    client_id: config.clientId,
+    refresh_token: refreshToken,
+  });
+  const res = await httpPostToCognitoWithRetry(
+    config.endpoints.token,
+    Buffer.from(body),
+    { headers },
+    config.logger
+  ).catch((err) => {
+    throw new Error(`Failed to refresh tokens: ${err}`);
+  });
+  config.logger.info("Successfully renewed tokens");
+  return {
+    id: res.data.id_token as string,
+    access: res.data.access_token as string,
+    // Only present if refresh token rotation is enabled for the user pool client
+    refresh: res.data.refresh_token as string | undefined,
+  };
+}
+
+/**
+ * Revoke the refresh token at the revocation endpoint, so it can't be used anymore (e.g. if it was stolen).
+ * Failure to revoke is logged, but doesn't throw, as that shouldn't stand in the way of signing out
+ */
+export async function revokeRefreshToken(
+  config: Pick<
+    CompleteConfig,
+    "clientId" | "clientSecret" | "endpoints" | "logger"
+  >,
+  refreshToken: string
+) {
+  if (!config.endpoints.revocation) {
+    config.logger.info(
+      "The identity provider has no revocation endpoint, skipping revocation"
+    );
+    return;
+  }
+  const headers: { "Content-Type": string; Authorization?: string } = {
+    "Content-Type": "application/x-www-form-urlencoded",
+  };
+  if (config.clientSecret) {
+    const encodedSecret = Buffer.from(
+      `${config.clientId}:${config.clientSecret}`
+    ).toString("base64");
+    headers["Authorization"] = `Basic ${encodedSecret}`;
+  }
+  const body = stringifyQueryString({
+    token: refreshToken,
+    client_id: config.clientId,
+  });
+  try {
+    await httpPostToCognitoWithRetry(
+      config.endpoints.revocation,
+      Buffer.from(body),
+      { headers },
+      config.logger
+    );
+    config.logger.info("Successfully revoked refresh token");
+  } catch (err) {
+    config.logger.error(`Failed to revoke refresh token: ${err}`);
+  }
+}
+
+/**
+ * Determine whether the browser sends the refresh token cookie along to the path,
+ * i.e. whether the path is within the Path of the refresh token cookie (if it has one)
+ */
+export function isRefreshTokenCookieSentTo(
+  config: Pick<CompleteConfig, "cookieSettings">,
+  path: string
+) {
+  const cookiePath = config.cookieSettings.refreshToken
+    .match(/(?:^|;)\s*path=([^;]*)/i)?.[1]
+    ?.trim();
+  if (!cookiePath || cookiePath === "/") {
+    return true;
+  }
+  return (
+    path === cookiePath ||
+    path.startsWith(cookiePath.endsWith("/") ? cookiePath : `${cookiePath}/`)
+  );
+}
+
 export function createErrorHtml(props: {
   title: string;
   message: string;
@@ -627,9 +2017,17 @@ export function createErrorHtml(props: {
   details?: string;
   linkUri: string;
   linkText: string;
+  linkMethod?: "GET" | "POST"; // With POST, the link is a button that submits a form
 }) {
   const params = { ...props, region: process.env.AWS_REGION };
-  return html.replace(
+  const template =
+    props.linkMethod === "POST"
+      ? html.replace(
+          /<!-- link -->[\s\S]*<!-- \/link -->/,
+          '<form method="post" action="${linkUri}"><button type="submit" class="btn btn-primary">${linkText}</button></form>'
+        )
+      : html;
+  return template.replace(
     /\${([^}]*)}/g,
     (_: any, v: keyof typeof params) => escapeHtml(params[v]) ?? ""
   );
@@ -680,6 +2078,74 @@ export function sign(
   return signature;
 }
 
+type TokenType = "id" | "access" | "refresh";
+
+const ENCRYPTED_COOKIE_PREFIX = "enc1.";
+
+/**
+ * Encrypt a JWT with AES-256-GCM, for storing it in a cookie.
+ * The token type is used as additional authenticated data, so that e.g. an encrypted access token
+ * can't be passed off as an ID token by copying it to the ID token cookie.
+ */
+export function encryptTokenCookie(
+  secret: string | undefined,
+  tokenType: TokenType,
+  token: string
+) {
+  if (!secret) return token;
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(
+    "aes-256-gcm",
+    getCookieEncryptionKey(secret),
+    iv
+  );
+  cipher.setAAD(Buffer.from(tokenType));
+  const encrypted = Buffer.concat([cipher.update(token), cipher.final()]);
+  const parts = [iv, encrypted, cipher.getAuthTag()].map((part) =>
+    part.toString("base64url")
+  );
+  return `${ENCRYPTED_COOKIE_PREFIX}${parts.join(".")}`;
+}
+
+/**
+ * Decrypt a JWT that was encrypted with encryptTokenCookie.
+ * Cookie values that aren't encrypted (or can't be decrypted) are ignored: these weren't set by us,
+ * or were set before cookie encryption was turned on, and the user will have to sign in again.
+ */
+export function decryptTokenCookie(
+  secret: string | undefined,
+  tokenType: TokenType,
+  value?: string
+) {
+  if (!secret || !value) return value;
+  if (!value.startsWith(ENCRYPTED_COOKIE_PREFIX)) return undefined;
+  try {
+    const [iv, encrypted, authTag] = value
+      .slice(ENCRYPTED_COOKIE_PREFIX.length)
+      .split(".")
+      .map((part) => Buffer.from(part, "base64url"));
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      getCookieEncryptionKey(secret),
+      iv,
+      { authTagLength: 16 }
+    );
+    decipher.setAAD(Buffer.from(tokenType));
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function getCookieEncryptionKey(secret: string) {
+  // The secret is a random string (like the nonce signing secret), hashing it gives a key of the right length
+  return createHash("sha256").update(secret).digest();
+}
+
 export function timestampInSeconds() {
   return (Date.now() / 1000) | 0;
 }
@@ -695,7 +2161,45 @@ export function generateSecret(
     .join("");
 }
 
-export function ensureValidRedirectPath(path: unknown) {
-  if (typeof path !== "string") return "/";
-  return path.startsWith("/") ? path : `/${path}`;
+/**
+ * Get the URL to redirect the user to (e.g. after sign-in): the requested URI, if that is a safe redirect target, otherwise the root of the current host.
+ *
+ * The requested URI is parsed with the WHATWG URL parser (as browsers do) relative to the current host,
+ * so that tricks such as "//evil.example" and "/\evil.example" are resolved the same way the browser would.
+ * The result must be on the current host, or on one of the allowed redirect hosts (over HTTPS).
+ */
+export function getValidRedirectUrl(
+  config: Pick<CompleteConfig, "allowedRedirectHosts"> & {
+    logger: Pick<Logger, "securityEvent">;
+  },
+  { requestedUri, domainName }: { requestedUri: unknown; domainName: string }
+) {
+  const currentOrigin = `https://${domainName}`;
+  if (typeof requestedUri !== "string") {
+    return `${currentOrigin}/`;
+  }
+  let url: URL;
+  try {
+    url = new URL(requestedUri, currentOrigin);
+  } catch {
+    config.logger.securityEvent("Rejected redirect target: invalid URI", {
+      requestedUri,
+      domainName,
+    });
+    return `${currentOrigin}/`;
+  }
+  if (
+    url.origin !== new URL(currentOrigin).origin &&
+    !(
+      url.protocol === "https:" &&
+      config.allowedRedirectHosts.includes(url.host)
+    )
+  ) {
+    config.logger.securityEvent(
+      "Rejected redirect target: not on this host or an allowed host",
+      { requestedUri, domainName, host: url.host }
+    );
+    return `${currentOrigin}/`;
+  }
+  return url.href;
 }
@@ -0,0 +1,266 @@
+// Copyright 2026 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+// Helpers for the tests of the Lambda@Edge handlers (not included in the bundles)
+
+import {
+  CloudFrontRequest,
+  CloudFrontRequestEvent,
+  CloudFrontRequestHandler,
+  CloudFrontRequestResult,
+  Context,
+} from "aws-lambda";
+import { createSign, generateKeyPairSync } from "crypto";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+
+export const jwks = {
+  keys: [
+    {
+      ...publicKey.export({ format: "jwk" }),
+      kid: "test-key",
+      alg: "RS256",
+      use: "sig",
+    },
+  ],
+};
+
+export const userPoolId = "us-east-1_example";
+export const issuer = `https://cognito-idp.us-east-1.amazonaws.com/${userPoolId}`;
+export const clientId = "testclient";
+
+export const baseConfig = {
+  logLevel: "none",
+  httpHeaders: {},
+  userPoolArn: `arn:aws:cognito-idp:us-east-1:123456789012:userpool/${userPoolId}`,
+  jwks,
+  clientId,
+  oauthScopes: ["openid"],
+  cognitoAuthDomain: "auth.example.com",
+  redirectPathSignIn: "/parseauth",
+  redirectPathSignOut: "/",
+  signOutUrl: "/signout",
+  redirectPathAuthRefresh: "/refreshauth",
+  cookieSettings: {},
+  mode: "staticSiteMode",
+  clientSecret: "",
+  nonceSigningSecret: "nonce-signing-secret",
+  cookieCompatibility: "amplify",
+  additionalCookies: {},
+  requiredGroup: "",
+};
+
+/**
+ * Configuration for another OpenID Connect provider than Cognito (with the same signing key)
+ */
+export const oidcIssuer = "https://login.example.com";
+export const oidcConfig = {
+  ...baseConfig,
+  oidc: {
+    issuer: oidcIssuer,
+    authorizationEndpoint: `${oidcIssuer}/authorize`,
+    tokenEndpoint: `${oidcIssuer}/token`,
+    jwksUri: `${oidcIssuer}/jwks`,
+  },
+  groupsClaim: "groups",
+};
+
+/**
+ * The handler, as the tests call it: with just the event (the handlers don't use the context and callback)
+ */
+export type Handler = (
+  event: CloudFrontRequestEvent
+) => Promise<CloudFrontRequestResult>;
+
+/**
+ * Load a handler with the given configuration (instead of the configuration.json that is deployed alongside it).
+ * HTTP requests (e.g. to Cognito) go to the given fetch mock
+ */
+export function loadHandler(
+  modulePath: string,
+  config: object,
+  fetch: jest.Mock = jest.fn()
+): Handler {
+  let handler: CloudFrontRequestHandler | undefined;
+  jest.isolateModules(() => {
+    jest.doMock("./https", () => ({ fetch }));
+    jest.doMock("fs", () => {
+      const fs = jest.requireActual("fs");
+      return {
+        ...fs,
+        readFileSync: (path: string, ...args: unknown[]) =>
+          `${path}`.endsWith("/configuration.json")
+            ? Buffer.from(JSON.stringify(config))
+            : fs.readFileSync(path, ...args),
+      };
+    });
+    ({ handler } = require(modulePath));
+  });
+  if (!handler) {
+    throw new Error(`Module ${modulePath} has no handler`);
+  }
+  const loadedHandler = handler;
+  return async (event) =>
+    (await loadedHandler(event, {} as Context, () => undefined)) ?? undefined;
+}
+
+/**
+ * The response that the handler returned (instead of passing the request on to the origin)
+ */
+export function asResponse(result: CloudFrontRequestResult) {
+  if (!result || !("status" in result)) {
+    throw new Error("Expected a response, but the request was passed on");
+  }
+  return { ...result, headers: result.headers ?? {}, body: result.body ?? "" };
+}
+
+/**
+ * The request that the handler passed on to the origin (instead of returning a response)
+ */
+export function asRequest(result: CloudFrontRequestResult) {
+  if (!result || "status" in result) {
+    throw new Error("Expected the request to be passed on, but got a response");
+  }
+  return result;
+}
+
+export function signJwt(
+  payload: { [key: string]: unknown },
+  header: { [key: string]: unknown } = {}
+) {
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (part: object) =>
+    Buffer.from(JSON.stringify(part)).toString("base64url");
+  const unsigned = `${encode({
+    alg: "RS256",
+    kid: "test-key",
+    ...header,
+  })}.${encode({ iss: issuer, iat: now, exp: now + 3600, ...payload })}`;
+  const signature = createSign("RSA-SHA256")
+    .update(unsigned)
+    .sign(privateKey)
+    .toString("base64url");
+  return `${unsigned}.${signature}`;
+}
+
+export function idToken(claims: { [key: string]: unknown } = {}) {
+  return signJwt({
+    sub: "user",
+    aud: clientId,
+    token_use: "id",
+    "cognito:username": "user",
+    ...claims,
+  });
+}
+
+export function accessToken(claims: { [key: string]: unknown } = {}) {
+  return signJwt({
+    sub: "user",
+    client_id: clientId,
+    token_use: "access",
+    scope: "openid",
+    username: "user",
+    ...claims,
+  });
+}
+
+/**
+ * Cookies with the tokens, as Amplify stores these (cookie compatibility "amplify")
+ */
+export function tokenCookies(tokens: {
+  id?: string;
+  access?: string;
+  refresh?: string;
+}) {
+  const prefix = `CognitoIdentityServiceProvider.${clientId}`;
+  return [
+    `${prefix}.LastAuthUser=user`,
+    ...(tokens.id ? [`${prefix}.user.idToken=${tokens.id}`] : []),
+    ...(tokens.access ? [`${prefix}.user.accessToken=${tokens.access}`] : []),
+    ...(tokens.refresh
+      ? [`${prefix}.user.refreshToken=${tokens.refresh}`]
+      : []),
+  ];
+}
+
+export function requestEvent(
+  request: Partial<CloudFrontRequest> & { cookies?: string[] }
+): CloudFrontRequestEvent {
+  const { cookies, headers = {}, ...rest } = request;
+  return {
+    Records: [
+      {
+        cf: {
+          config: {
+            distributionDomainName: "d111111abcdef8.cloudfront.net",
+            distributionId: "EDFDVBD6EXAMPLE",
+            eventType: "viewer-request",
+            requestId: "request",
+          },
+          request: {
+            clientIp: "203.0.113.1",
+            method: "GET",
+            uri: "/",
+            querystring: "",
+            ...rest,
+            headers: {
+              host: [{ key: "Host", value: "www.example.com" }],
+              ...(cookies?.length && {
+                cookie: [{ key: "Cookie", value: cookies.join("; ") }],
+              }),
+              ...headers,
+            },
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Session store settings (session store mode), the requests to DynamoDB go to the fetch mock
+ */
+export const sessionStore = { tableName: "sessions", region: "us-east-1" };
+export const sessionStoreEndpoint = "https://dynamodb.us-east-1.amazonaws.com";
+
+/**
+ * Fetch mock that serves the given session (for any session ID) from the session store,
+ * and passes all other requests on to the given fetch mock
+ */
+export function withSessionStore(
+  session: { idToken: string; accessToken: string; refreshToken?: string },
+  fetch: jest.Mock = jest.fn()
+) {
+  return jest.fn(
+    async (
+      url: string,
+      body: Buffer,
+      options: { headers: { [name: string]: string } }
+    ) => {
+      if (url !== sessionStoreEndpoint) {
+        return fetch(url, body, options);
+      }
+      const data =
+        options.headers["x-amz-target"] === "DynamoDB_20120810.GetItem"
+          ? {
+              Item: {
+                clientId: { S: clientId },
+                idToken: { S: session.idToken },
+                accessToken: { S: session.accessToken },
+                ...(session.refreshToken && {
+                  refreshToken: { S: session.refreshToken },
+                }),
+                expiresAt: { N: `${Math.floor(Date.now() / 1000) + 3600}` },
+              },
+            }
+          : {};
+      return {
+        status: 200,
+        headers: { "content-type": "application/x-amz-json-1.0" },
+        data: Buffer.from(JSON.stringify(data)),
+      };
+    }
+  );
+}
@@ -0,0 +1,338 @@
+// Copyright 2026 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { sign } from "../shared/shared";
+import {
+  accessToken,
+  asResponse,
+  baseConfig,
+  idToken,
+  loadHandler,
+  requestEvent,
+  tokenCookies,
+} from "../shared/test-helpers";
+
+describe("revocation of the refresh token", () => {
+  const fetch = jest.fn();
+  const handler = loadHandler("../sign-out", baseConfig, fetch);
+  const refreshHandler = loadHandler("../refresh-auth", baseConfig, fetch);
+  const nonce = `${Math.floor(Date.now() / 1000)}Tsignout`;
+  const nonceCookies = [
+    `spa-auth-edge-nonce=${nonce}`,
+    `spa-auth-edge-nonce-hmac=${sign(
+      nonce,
+      baseConfig.nonceSigningSecret,
+      16
+    )}`,
+  ];
+
+  beforeEach(() => {
+    fetch.mockReset();
+    fetch.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: Buffer.from(""),
+    });
+  });
+
+  test("takes a detour via the refresh path, if the refresh token cookie isn't sent to the sign-out path", async () => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/signout",
+          querystring: "redirect_uri=https%3A%2F%2Fwww.example.com%2Fbye",
+          cookies: tokenCookies({ id: idToken(), access: accessToken() }),
+        })
+      )
+    );
+    expect(result.status).toBe("307");
+    const location = new URL(result.headers.location[0].value);
+    expect(`${location.origin}${location.pathname}`).toBe(
+      "https://www.example.com/refreshauth"
+    );
+    expect(location.searchParams.get("redirect_uri")).toBe(
+      "https://www.example.com/bye"
+    );
+    const nonce = location.searchParams.get("signout");
+    expect(nonce).toMatch(/^\d+T/);
+    expect(result.headers["set-cookie"].map(({ value }) => value)).toEqual([
+      expect.stringMatching(`^spa-auth-edge-nonce=${nonce};`),
+      expect.stringMatching(/^spa-auth-edge-nonce-hmac=/),
+    ]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  test("the refresh path revokes the refresh token, and redirects back to the sign-out path", async () => {
+    const result = asResponse(
+      await refreshHandler(
+        requestEvent({
+          uri: "/refreshauth",
+          querystring: `redirect_uri=https%3A%2F%2Fwww.example.com%2Fbye&signout=${nonce}`,
+          cookies: [
+            ...tokenCookies({ id: idToken(), refresh: "refresh-token" }),
+            ...nonceCookies,
+          ],
+        })
+      )
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const [uri, body] = fetch.mock.calls[0];
+    expect(uri).toBe("https://auth.example.com/oauth2/revoke");
+    expect(body.toString()).toContain("token=refresh-token");
+    expect(result.status).toBe("307");
+    expect(result.headers.location[0].value).toBe(
+      "https://www.example.com/signout?redirect_uri=https%3A%2F%2Fwww.example.com%2Fbye&revoked=true"
+    );
+  });
+
+  test.each([
+    ["without nonce cookies", `signout=${nonce}`, []],
+    [
+      "for another nonce",
+      `signout=${Math.floor(Date.now() / 1000)}Tother`,
+      nonceCookies,
+    ],
+    ["without nonce", "signout=true", nonceCookies],
+  ])(
+    "the refresh path doesn't revoke the refresh token %s (CSRF)",
+    async (_, querystring, cookies) => {
+      const result = asResponse(
+        await refreshHandler(
+          requestEvent({
+            uri: "/refreshauth",
+            querystring,
+            cookies: [
+              ...tokenCookies({ id: idToken(), refresh: "refresh-token" }),
+              ...cookies,
+            ],
+          })
+        )
+      );
+      expect(fetch).not.toHaveBeenCalled();
+      expect(result.headers.location[0].value).toBe(
+        "https://www.example.com/signout?revoked=true"
+      );
+    }
+  );
+
+  test("signs out after the detour", async () => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/signout",
+          querystring: "revoked=true",
+          cookies: tokenCookies({ id: idToken(), access: accessToken() }),
+        })
+      )
+    );
+    expect(result.status).toBe("307");
+    expect(result.headers.location[0].value).toMatch(
+      /^https:\/\/auth\.example\.com\/logout\?/
+    );
+    expect(
+      result.headers["set-cookie"].map(({ value }) => value)
+    ).toContainEqual(
+      expect.stringMatching(
+        /\.user\.refreshToken=;.*Path=\/refreshauth.*Expires=Thu, 01 Jan 1970/
+      )
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  test("revokes the refresh token right away, if the refresh token cookie is sent to the sign-out path", async () => {
+    const handler = loadHandler(
+      "../sign-out",
+      {
+        ...baseConfig,
+        cookieSettings: {
+          refreshToken: "Path=/; Secure; HttpOnly; SameSite=Lax",
+        },
+      },
+      fetch
+    );
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/signout",
+          cookies: tokenCookies({ id: idToken(), refresh: "refresh-token" }),
+        })
+      )
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(result.headers.location[0].value).toMatch(
+      /^https:\/\/auth\.example\.com\/logout\?/
+    );
+  });
+});
+
+describe("sign out on all devices", () => {
+  const fetch = jest.fn();
+  const handler = loadHandler(
+    "../sign-out",
+    { ...baseConfig, signOutEverywhereUrl: "/signout-everywhere" },
+    fetch
+  );
+  const cookies = tokenCookies({ id: idToken(), access: accessToken() });
+
+  beforeEach(() => {
+    fetch.mockReset();
+    fetch.mockResolvedValue({
+      status: 200,
+      headers: { "content-type": "application/x-amz-json-1.1" },
+      data: Buffer.from("{}"),
+    });
+  });
+
+  test("asks for confirmation upon GET", async () => {
+    const result = asResponse(
+      await handler(requestEvent({ uri: "/signout-everywhere", cookies }))
+    );
+    expect(result.status).toBe("200");
+    expect(result.body).toContain(
+      '<form method="post" action="https://www.example.com/signout-everywhere">'
+    );
+    expect(result.headers["set-cookie"]).toBeUndefined();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  test("rejects POSTs from other origins", async () => {
+    for (const origin of ["https://evil.example.com", undefined]) {
+      const result = asResponse(
+        await handler(
+          requestEvent({
+            method: "POST",
+            uri: "/signout-everywhere",
+            cookies,
+            headers: origin
+              ? { origin: [{ key: "Origin", value: origin }] }
+              : {},
+          })
+        )
+      );
+      expect(result.status).toBe("403");
+      expect(result.headers["set-cookie"]).toBeUndefined();
+    }
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  test("signs out on all devices upon a POST from the same origin", async () => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          method: "POST",
+          uri: "/signout-everywhere",
+          cookies,
+          headers: {
+            origin: [{ key: "Origin", value: "https://www.example.com" }],
+          },
+        })
+      )
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][2].headers["X-Amz-Target"]).toBe(
+      "AWSCognitoIdentityProviderService.GlobalSignOut"
+    );
+    expect(result.status).toBe("303");
+    expect(result.headers.location[0].value).toMatch(
+      /^https:\/\/auth\.example\.com\/logout\?/
+    );
+  });
+});
+
+describe("signed out already", () => {
+  const fetch = jest.fn();
+  const handler = loadHandler(
+    "../sign-out",
+    {
+      ...baseConfig,
+      cookieExpiryFromTokens: true,
+      cookieSettings: {
+        refreshToken: "Path=/; Secure; HttpOnly; SameSite=Lax",
+      },
+    },
+    fetch
+  );
+
+  beforeEach(() => {
+    fetch.mockReset();
+    fetch.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: Buffer.from(""),
+    });
+  });
+
+  test("only if none of the auth cookies are left", async () => {
+    const result = asResponse(await handler(requestEvent({ uri: "/signout" })));
+    expect(result.status).toBe("200");
+    expect(result.body).toContain("You are already signed out");
+  });
+
+  test("not if the ID token cookie expired, but the refresh token cookie didn't", async () => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/signout",
+          cookies: tokenCookies({ refresh: "refresh-token" }),
+        })
+      )
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe("307");
+    expect(
+      result.headers["set-cookie"].map(({ value }) => value)
+    ).toContainEqual(
+      expect.stringMatching(
+        /^CognitoIdentityServiceProvider\.testclient\.user\.refreshToken=;.*Expires=Thu, 01 Jan 1970/
+      )
+    );
+  });
+});
+
+describe("redirect after sign-out", () => {
+  const handler = loadHandler("../sign-out", {
+    ...baseConfig,
+    signOutRedirectUris: [
+      "https://www.example.org/bye",
+      "https://partner.example.com:8443/",
+    ],
+  });
+  const signOut = async (redirectUri: string) => {
+    const result = asResponse(
+      await handler(
+        requestEvent({
+          uri: "/signout",
+          querystring: `revoked=true&redirect_uri=${encodeURIComponent(
+            redirectUri
+          )}`,
+          cookies: tokenCookies({ id: idToken(), access: accessToken() }),
+        })
+      )
+    );
+    const location = new URL(result.headers.location[0].value);
+    expect(`${location.origin}${location.pathname}`).toBe(
+      "https://auth.example.com/logout"
+    );
+    return location.searchParams.get("logout_uri");
+  };
+
+  test.each([
+    ["https://www.example.org/bye", "https://www.example.org/bye"],
+    ["HTTPS://WWW.EXAMPLE.ORG/bye", "https://www.example.org/bye"],
+    ["https://www.example.org:443/bye", "https://www.example.org/bye"],
+    ["https://partner.example.com:8443", "https://partner.example.com:8443/"],
+  ])("redirects to allowed URI %s", async (redirectUri, logoutUri) => {
+    expect(await signOut(redirectUri)).toBe(logoutUri);
+  });
+
+  test.each([
+    "https://evil.example.com/",
+    "https://www.example.org/bye/../admin",
+    "https://www.example.org/BYE",
+    "http://www.example.org/bye",
+    "https://partner.example.com/",
+    "/bye",
+  ])("ignores other URI %s", async (redirectUri) => {
+    expect(await signOut(redirectUri)).toBe("https://www.example.com/");
+  });
+});
@@ -1,42 +1,67 @@
 // Copyright 2021 Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: MIT-0
 
-import { stringify as stringifyQueryString } from "querystring";
-import { CloudFrontRequestHandler } from "aws-lambda";
 import {
-  getCompleteConfig,
+  parse as parseQueryString,
+  stringify as stringifyQueryString,
+} from "querystring";
+import { CloudFrontRequest, CloudFrontRequestHandler } from "aws-lambda";
+import {
+  getCompleteConfigProfiles,
+  selectConfigProfile,
   extractAndParseCookies,
+  extractCookiesFromHeaders,
+  resolveSession,
   generateCookieHeaders,
   createErrorHtml,
+  getLogoutUrl,
+  httpPostToCognitoWithRetry,
+  revokeRefreshToken,
+  isRefreshTokenCookieSentTo,
+  generateNonce,
+  getNonceCookies,
+  CompleteConfig,
 } from "../shared/shared";
 
-let CONFIG: ReturnType<typeof getCompleteConfig>;
+let CONFIGS: ReturnType<typeof getCompleteConfigProfiles>;
 
 export const handler: CloudFrontRequestHandler = async (event) => {
-  if (!CONFIG) {
-    CONFIG = getCompleteConfig();
-    CONFIG.logger.debug("Configuration loaded:", CONFIG);
+  if (!CONFIGS) {
+    CONFIGS = getCompleteConfigProfiles();
+    CONFIGS[0].logger.debug("Configuration loaded:", CONFIGS);
   }
-  CONFIG.logger.debug("Event:", event);
   const request = event.Records[0].cf.request;
+  const config = selectConfigProfile(CONFIGS, request);
+  config.logger.debug("Event:", event);
   const domainName = request.headers["host"][0].value;
-  const cookies = extractAndParseCookies(
-    request.headers,
-    CONFIG.clientId,
-    CONFIG.cookieCompatibility
+  const logoutUri = getLogoutUri(config, {
+    domainName,
+    querystring: request.querystring,
+  });
+  const cookies = await resolveSession(
+    config,
+    extractAndParseCookies(request.headers, config)
   );
 
-  if (!cookies.idToken) {
+  // The ID token cookie may have expired already (e.g. if cookie expiry is derived from the tokens), while other cookies haven't:
+  // the user is only signed out if none of these are left (the one with the user name lasts as long as the refresh token)
+  if (
+    !cookies.idToken &&
+    !cookies.accessToken &&
+    !cookies.refreshToken &&
+    !cookies.sessionId &&
+    !cookies.tokenUserName
+  ) {
     const response = {
       body: createErrorHtml({
         title: "Signed out",
         message: "You are already signed out",
-        linkUri: `https://${domainName}${CONFIG.redirectPathSignOut}`,
+        linkUri: logoutUri,
         linkText: "Proceed",
       }),
       status: "200",
       headers: {
-        ...CONFIG.cloudFrontHeaders,
+        ...config.cloudFrontHeaders,
         "content-type": [
           {
             key: "Content-Type",
@@ -45,36 +70,254 @@ export const handler: CloudFrontRequestHandler = async (event) => {
         ],
       },
     };
-    CONFIG.logger.debug("Returning response:\n", JSON.stringify(response));
+    config.logger.debug("Returning response:\n", JSON.stringify(response));
     return response;
   }
 
-  const qs = {
-    logout_uri: `https://${domainName}${CONFIG.redirectPathSignOut}`,
-    client_id: CONFIG.clientId,
-  };
+  const signOutEverywhere =
+    !!config.signOutEverywhereUrl &&
+    request.uri === config.signOutEverywhereUrl;
+  if (signOutEverywhere) {
+    // Signing out on all devices can't be undone (unlike signing out in this browser), so it must not happen upon a mere GET,
+    // that any site could trigger (CSRF): the user confirms with a POST, which must come from our own origin
+    const confirmationResponse = confirmSignOutEverywhere(config, {
+      request,
+      domainName,
+    });
+    if (confirmationResponse) {
+      return confirmationResponse;
+    }
+    // Sign out on all devices: this invalidates all refresh tokens of the user, not just the one in the cookies
+    // Unlike revoking, this must succeed: otherwise the user would think the other devices are signed out too
+    try {
+      await globalSignOut(config, cookies.accessToken);
+    } catch (err) {
+      config.logger.error(err);
+      const response = {
+        body: createErrorHtml({
+          title: "Sign-out issue",
+          message: "We can't sign you out on all your devices because of a",
+          expandText: "technical problem",
+          details: `${err}`,
+          linkUri: `https://${domainName}${config.signOutEverywhereUrl}`,
+          linkText: "Try again",
+        }),
+        status: "200",
+        headers: {
+          ...config.cloudFrontHeaders,
+          "content-type": [
+            {
+              key: "Content-Type",
+              value: "text/html; charset=UTF-8",
+            },
+          ],
+        },
+      };
+      config.logger.debug("Returning response:\n", JSON.stringify(response));
+      return response;
+    }
+  } else if (cookies.refreshToken) {
+    // Revoke the refresh token, so it can't be used anymore (e.g. if it was stolen)
+    await revokeRefreshToken(config, cookies.refreshToken);
+  } else if (
+    !parseQueryString(request.querystring).revoked &&
+    !isRefreshTokenCookieSentTo(config, request.uri)
+  ) {
+    // In static site mode, the refresh token cookie is only sent to the refresh path (by default).
+    // So we take a detour via the refresh path, which revokes the refresh token, and redirects the user back here.
+    // The refresh path only revokes if the nonce in the query string matches the (signed) nonce in the cookies,
+    // so other sites can't have the refresh token revoked by linking to the refresh path
+    const nonce = generateNonce(config);
+    const response = {
+      status: "307",
+      statusDescription: "Temporary Redirect",
+      headers: {
+        location: [
+          {
+            key: "location",
+            value: `https://${domainName}${
+              config.redirectPathAuthRefresh
+            }?${stringifyQueryString({
+              ...parseQueryString(request.querystring),
+              signout: nonce,
+            })}`,
+          },
+        ],
+        "set-cookie": getNonceCookies({
+          nonce,
+          cookieNames: config.internalCookieNames,
+          ...config,
+        }),
+        ...config.cloudFrontHeaders,
+      },
+    };
+    config.logger.debug("Returning response:\n", JSON.stringify(response));
+    return response;
+  } else {
+    config.logger.info("No refresh token in cookies, skipping revocation");
+  }
+
+  if (config.sessions && cookies.sessionId) {
+    // Session store mode: the session must not be usable anymore, even if the browser would keep the session cookie
+    await config.sessions
+      .delete(cookies.sessionId)
+      .catch((err) => config.logger.error("Failed to delete session:", err));
+  }
 
+  // After a POST, the browser must GET the logout URL (with a 307, it would POST there too)
   const response = {
-    status: "307",
-    statusDescription: "Temporary Redirect",
+    status: signOutEverywhere ? "303" : "307",
+    statusDescription: signOutEverywhere ? "See Other" : "Temporary Redirect",
     headers: {
       location: [
         {
           key: "location",
-          value: `https://${
-            CONFIG.cognitoAuthDomain
-          }/logout?${stringifyQueryString(qs)}`,
+          value: getLogoutUrl(config, {
+            logoutUri,
+            idToken: cookies.idToken,
+          }),
         },
       ],
       "set-cookie": generateCookieHeaders.signOut({
         tokens: {
           id: cookies.idToken,
         },
-        ...CONFIG,
+        tokenUserName: cookies.tokenUserName,
+        sessionId: cookies.sessionId,
+        requestCookies: extractCookiesFromHeaders(request.headers),
+        ...config,
       }),
-      ...CONFIG.cloudFrontHeaders,
+      ...config.cloudFrontHeaders,
     },
   };
-  CONFIG.logger.debug("Returning response:\n", JSON.stringify(response));
+  config.logger.debug("Returning response:\n", JSON.stringify(response));
   return response;
 };
+
+/**
+ * Upon GET, ask the user to confirm signing out on all devices: the confirmation is a form that POSTs to the same URL.
+ * Upon POST, check that the request comes from our own origin (browsers always send the Origin header along with a POST).
+ * @returns The response to return, or undefined if the user confirmed and we can go ahead
+ */
+function confirmSignOutEverywhere(
+  config: CompleteConfig,
+  { request, domainName }: { request: CloudFrontRequest; domainName: string }
+) {
+  const signOutEverywhereUri = `https://${domainName}${request.uri}${
+    request.querystring ? `?${request.querystring}` : ""
+  }`;
+  let body: string;
+  if (request.method !== "POST") {
+    body = createErrorHtml({
+      title: "Sign out everywhere",
+      message:
+        "Do you want to sign out on all your devices? You'll have to sign in again on each of them",
+      linkUri: signOutEverywhereUri,
+      linkText: "Sign out everywhere",
+      linkMethod: "POST",
+    });
+  } else {
+    const origin = request.headers["origin"]?.[0]?.value;
+    if (origin === `https://${domainName}`) {
+      return undefined;
+    }
+    config.logger.securityEvent(
+      "Rejected signing out on all devices: possible CSRF",
+      { origin, domainName }
+    );
+    body = createErrorHtml({
+      title: "Sign-out issue",
+      message:
+        "We can't sign you out on all your devices, as the request didn't come from this site",
+      linkUri: signOutEverywhereUri,
+      linkText: "Try again",
+    });
+  }
+  const response = {
+    body,
+    status: request.method !== "POST" ? "200" : "403",
+    headers: {
+      ...config.cloudFrontHeaders,
+      "content-type": [
+        {
+          key: "Content-Type",
+          value: "text/html; charset=UTF-8",
+        },
+      ],
+    },
+  };
+  config.logger.debug("Returning response:\n", JSON.stringify(response));
+  return response;
+}
+
+/**
+ * Determine where the user should end up after sign-out: at the redirect_uri from the query string if that is one of the allowed URIs,
+ * otherwise at the RedirectPathSignOut of this site.
+ * (The identity provider will only redirect to registered URIs, so those should be registered there too)
+ */
+function getLogoutUri(
+  config: CompleteConfig,
+  { domainName, querystring }: { domainName: string; querystring: string }
+) {
+  const defaultLogoutUri = `https://${domainName}${config.redirectPathSignOut}`;
+  const { redirect_uri: redirectUri } = parseQueryString(querystring);
+  if (!redirectUri) {
+    return defaultLogoutUri;
+  }
+  const canonicalRedirectUri =
+    typeof redirectUri === "string" && canonicalizeRedirectUri(redirectUri);
+  const allowedLogoutUri =
+    canonicalRedirectUri &&
+    (config.signOutRedirectUris ?? []).find(
+      (uri) => canonicalizeRedirectUri(uri) === canonicalRedirectUri
+    );
+  if (!allowedLogoutUri) {
+    config.logger.warn(
+      "Ignoring redirect_uri as it's not one of the allowed sign-out redirect URIs:",
+      redirectUri
+    );
+    return defaultLogoutUri;
+  }
+  return allowedLogoutUri;
+}
+
+/**
+ * Canonicalize an absolute URI the way browsers do (e.g. lowercase scheme and host, no default port), for comparison
+ */
+function canonicalizeRedirectUri(uri: string) {
+  try {
+    return new URL(uri).href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Sign the user out on all devices, using the Cognito GlobalSignOut API.
+ * That API authorizes with the user's access token, which must include scope aws.cognito.signin.user.admin
+ */
+async function globalSignOut(config: CompleteConfig, accessToken?: string) {
+  if (config.oidc) {
+    throw new Error(
+      "Signing out on all devices is only supported for Cognito User Pools"
+    );
+  }
+  if (!accessToken) {
+    throw new Error("No access token present in cookies");
+  }
+  const userPoolRegion = config.userPoolArn.split(":")[3];
+  await httpPostToCognitoWithRetry(
+    `https://cognito-idp.${userPoolRegion}.amazonaws.com/`,
+    Buffer.from(JSON.stringify({ AccessToken: accessToken })),
+    {
+      headers: {
+        "Content-Type": "application/x-amz-json-1.1",
+        "X-Amz-Target": "AWSCognitoIdentityProviderService.GlobalSignOut",
+      },
+    },
+    config.logger
+  ).catch((err) => {
+    throw new Error(`Failed to sign out on all devices: ${err}`);
+  });
+  config.logger.info("Successfully signed out on all devices");
+}